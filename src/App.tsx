@@ -1,29 +1,169 @@
-import { useEffect, useState } from 'react';
-import { BarChart3, AlertCircle, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BarChart3, AlertCircle, Upload, Download, Tags, Users, SlidersHorizontal, Target, DollarSign, LayoutGrid, Table, ArrowLeftRight } from 'lucide-react';
 import { AppProvider, useAppState, useAppActions } from './hooks/useAppState';
 import { FileUploader } from './components/FileUploader';
-import { WeekSelector } from './components/WeekSelector';
+import { ColumnMappingEditor, MappingProfileSelector } from './components/ColumnMappingEditor';
+import { DateFormatSelector } from './components/DateFormatSelector';
+import { RevenuePrecedenceSelector } from './components/RevenuePrecedenceSelector';
+import { PeriodSelector } from './components/PeriodSelector';
 import { TechnicianCard } from './components/TechnicianCard';
-import { processAndIntegrateFiles, getDataSummary } from './services/dataIntegrator';
-import { calculateAllTechnicianKPIs } from './services/kpiCalculator';
-import type { UploadedFiles } from './types';
+import { ProcessingStatus } from './components/ProcessingStatus';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { DatasetManager } from './components/DatasetManager';
+import { TrendPanel } from './components/TrendPanel';
+import { ComparePanel } from './components/ComparePanel';
+import { ServiceCategoryEditor } from './components/ServiceCategoryEditor';
+import { TeamEditor } from './components/TeamEditor';
+import { RollupScorecard } from './components/RollupScorecard';
+import { ScoringEditor } from './components/ScoringEditor';
+import { TargetEditor } from './components/TargetEditor';
+import { CompensationPanel } from './components/CompensationPanel';
+import { KPIDrilldownDrawer } from './components/KPIDrilldownDrawer';
+import { TechnicianTable } from './components/TechnicianTable';
+import { getDataSummary, validateUploadedFiles, type IntegratedData, type ProcessingOptions } from './services/dataIntegrator';
+import {
+  processFilesInWorker,
+  calculateKPIsInWorker,
+  cancelProcessing,
+  ProcessingCancelledError
+} from './services/processingClient';
+import {
+  saveDataset,
+  loadDataset,
+  loadActiveDatasetId,
+  saveActiveDatasetId,
+  type DatasetInfo,
+  type StoredDataset
+} from './services/datasetStore';
+import { getKPITable } from './services/kpiCalculator';
+import { buildKPIRegistry } from './services/kpiRegistry';
+import { calculatePerformanceScores } from './services/scoring';
+import { getEffectiveThresholds } from './services/targets';
+import { getPeriodPacing, getPeriodWeeks, projectTechnicianKPIs } from './services/pacing';
+import { saveIncludeZeroEfficiencyJobs, saveResultsView } from './services/settings';
+import { formatDateTime, toDateInputValue } from './utils/dateHelpers';
+import { downloadCsv } from './utils/csvHelpers';
+import type { UploadedFiles, ReportSheetNames, ColumnMappingProfile, MissingColumnsIssue, ResultsView } from './types';
 
 function AppContent() {
   const { state } = useAppState();
-  const { setFiles, setWeek, setTechnicians, setProcessing, setError, setDataLoaded } = useAppActions();
+  const {
+    setFiles,
+    setPeriod,
+    setTechnicians,
+    setMappingProfile,
+    setDateFormat,
+    setCalendar,
+    setServiceCategories,
+    setRevenuePrecedence,
+    setCompareLastYear,
+    setIncludeZeroEfficiencyJobs,
+    setResultsView,
+    setTeams,
+    setScoringModel,
+    setTargets,
+    setPacing,
+    setCompensationPlan,
+    setProcessing,
+    setProgress,
+    setError,
+    setDataLoaded
+  } = useAppActions();
   
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
-  const [dataSummary, setDataSummary] = useState<any>(null);
+  const [columnIssues, setColumnIssues] = useState<MissingColumnsIssue[]>([]);
+  const [dataSummary, setDataSummary] = useState<ReturnType<typeof getDataSummary> | null>(null);
+  const [integratedData, setIntegratedData] = useState<IntegratedData | null>(null);
+  const [activeDataset, setActiveDataset] = useState<DatasetInfo | null>(null);
+  const [datasetsVersion, setDatasetsVersion] = useState(0);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [appendToHistory, setAppendToHistory] = useState(true);
+  const [trendTechnician, setTrendTechnician] = useState<string | null>(null);
+  const [compareTechnicians, setCompareTechnicians] = useState<string[] | null>(null);
+  const [drilldown, setDrilldown] = useState<{ technician: string; kpiId: string } | null>(null);
+  const [showServiceCategories, setShowServiceCategories] = useState(false);
+  const [showTeams, setShowTeams] = useState(false);
+  const [showScoring, setShowScoring] = useState(false);
+  const [showTargets, setShowTargets] = useState(false);
+  const [showCompensation, setShowCompensation] = useState(false);
 
-  // Handle file changes
-  const handleFilesChange = (files: UploadedFiles) => {
-    setFiles(files);
+  // Core KPIs plus one KPI per service category rule
+  const registry = useMemo(
+    () => buildKPIRegistry(state.serviceCategories, state.includeZeroEfficiencyJobs),
+    [state.serviceCategories, state.includeZeroEfficiencyJobs]
+  );
+  const kpiSettings = useMemo(
+    () => ({
+      serviceCategories: state.serviceCategories,
+      revenuePrecedence: state.revenuePrecedence,
+      includeZeroEfficiencyJobs: state.includeZeroEfficiencyJobs
+    }),
+    [state.serviceCategories, state.revenuePrecedence, state.includeZeroEfficiencyJobs]
+  );
+  // Length of the selected period in working weeks, scaling the weekly targets of cumulative KPIs
+  const periodWeeks = useMemo(() => getPeriodWeeks(state.period, state.calendar), [state.period, state.calendar]);
+  const scores = useMemo(
+    () => calculatePerformanceScores(state.technicians, registry, state.scoringModel, state.teams, periodWeeks),
+    [state.technicians, registry, state.scoringModel, state.teams, periodWeeks]
+  );
+  // Targets in effect on the last day of the selected period, scaled to its length
+  const technicianThresholds = useMemo(
+    () => new Map(state.technicians.map(technician => [
+      technician.technician,
+      getEffectiveThresholds(technician.technician, registry, state.targetSets, state.roles, state.period.end, periodWeeks)
+    ])),
+    [state.technicians, registry, state.targetSets, state.roles, state.period.end, periodWeeks]
+  );
+  // End-of-period projections, only while pacing a period still in progress
+  const projections = useMemo(() => {
+    const pacing = getPeriodPacing(state.period, state.calendar);
+    if (!state.pacing || !pacing.inProgress || !integratedData) return null;
+
+    return new Map(state.technicians.map(technician => [
+      technician.technician,
+      projectTechnicianKPIs(technician, integratedData.appointments, registry, state.period, pacing)
+    ]));
+  }, [state.pacing, state.period, state.calendar, state.technicians, integratedData, registry]);
+  const drilldownKPI = drilldown ? registry.find(kpi => kpi.id === drilldown.kpiId) : undefined;
+  const technicianNames = useMemo(() => state.technicians.map(technician => technician.technician), [state.technicians]);
+  // Names of the highest-scoring technicians, to start a comparison with
+  const getTopTechnicians = (count: number) =>
+    [...technicianNames]
+      .sort((a, b) => (scores.get(b)?.score ?? 0) - (scores.get(a)?.score ?? 0))
+      .slice(0, count);
+
+  // Latest integrated data, period and KPI settings, read by the processing effects without re-triggering them
+  const integratedDataRef = useRef<IntegratedData | null>(null);
+  const periodRef = useRef(state.period);
+  const kpiSettingsRef = useRef(kpiSettings);
+  // Saved dataset the current upload is appended to, if any
+  const appendTargetRef = useRef<DatasetInfo | null>(null);
+  // Parse settings, read when an upload is processed so changing them never re-parses an upload already in a dataset
+  const parseOptionsRef = useRef<ProcessingOptions>({});
+  // Last upload that was processed successfully
+  const processedFilesRef = useRef<UploadedFiles | null>(null);
+  // Current upload, so a revalidation that finishes after a new drop is ignored
+  const uploadedFilesRef = useRef(state.uploadedFiles);
+  useEffect(() => {
+    uploadedFilesRef.current = state.uploadedFiles;
+  }, [state.uploadedFiles]);
+
+  // Handle file changes; a new drop cancels any parse still in progress
+  const handleFilesChange = (files: UploadedFiles, sheetNames: ReportSheetNames) => {
+    cancelProcessing();
+    integratedDataRef.current = null;
+    setIntegratedData(null);
+    appendTargetRef.current = appendToHistory ? activeDataset : null;
+    if (!appendTargetRef.current) setActiveDataset(null);
+    setFiles(files, sheetNames);
     setValidationErrors([]);
+    setColumnIssues([]);
   };
 
   // Handle validation completion
-  const handleValidationComplete = (isValid: boolean, errors: string[]) => {
+  const handleValidationComplete = (isValid: boolean, errors: string[], issues: MissingColumnsIssue[]) => {
     setValidationErrors(errors);
+    setColumnIssues(issues);
     if (!isValid) {
       setError(errors.join(', '));
     } else {
@@ -31,52 +171,163 @@ function AppContent() {
     }
   };
 
-  // Handle week changes
-  const handleWeekChange = (week: { start: Date; end: Date }) => {
-    setWeek(week);
+  // Handle mapping profile changes by revalidating the current files
+  const handleMappingProfileChange = async (profile: ColumnMappingProfile) => {
+    setMappingProfile(profile);
+    const result = await validateUploadedFiles(state.uploadedFiles, profile, state.uploadedSheetNames);
+    if (uploadedFilesRef.current !== state.uploadedFiles) return;
+    handleValidationComplete(result.isValid, result.errors, result.columnIssues);
+
+    // Retry an upload that has not been processed yet under the fixed mapping
+    if (result.isValid && state.uploadedFiles !== processedFilesRef.current) {
+      setFiles({ ...state.uploadedFiles }, state.uploadedSheetNames);
+    }
+  };
+
+  // Show a saved dataset and calculate KPIs for the selected period
+  const openDataset = useCallback((dataset: StoredDataset) => {
+    cancelProcessing();
+    integratedDataRef.current = dataset.data;
+    setIntegratedData(dataset.data);
+    setDataSummary(getDataSummary(dataset.data));
+    setActiveDataset(dataset.info);
+    setProcessing(true);
+
+    calculateKPIsInWorker(dataset.data, periodRef.current, kpiSettingsRef.current, setProgress)
+      .then(technicians => {
+        setTechnicians(technicians);
+        setProcessing(false);
+      })
+      .catch(error => {
+        if (error instanceof ProcessingCancelledError) return;
+        setError(error instanceof Error ? error.message : 'Failed to calculate KPIs');
+      });
+  }, [setProcessing, setProgress, setTechnicians, setError]);
+
+  const handleActiveDatasetRemoved = () => {
+    setActiveDataset(null);
+  };
+
+  const handleResultsViewChange = (view: ResultsView) => {
+    saveResultsView(view);
+    setResultsView(view);
   };
 
-  // Process files and calculate KPIs
+  // Restore the last opened dataset on startup
   useEffect(() => {
-    const processFiles = async () => {
-      if (!state.uploadedFiles.opportunities || 
-          !state.uploadedFiles.lineItems || 
-          !state.uploadedFiles.jobTimes || 
-          !state.uploadedFiles.appointments) {
-        return;
-      }
-
-      setProcessing(true);
-      setError(null);
+    const datasetId = loadActiveDatasetId();
+    if (!datasetId) return;
+
+    loadDataset(datasetId)
+      .then(dataset => {
+        if (dataset && !integratedDataRef.current) openDataset(dataset);
+      })
+      .catch(() => saveActiveDatasetId(null));
+  }, [openDataset]);
+
+  // Keep the parse settings for the next upload
+  useEffect(() => {
+    parseOptionsRef.current = {
+      profile: state.mappingProfile,
+      dateFormat: state.dateFormat,
+      timeZone: state.calendar.timeZone
+    };
+  }, [state.mappingProfile, state.dateFormat, state.calendar.timeZone]);
+
+  // Process a new upload and calculate KPIs in the worker
+  useEffect(() => {
+    if (!state.uploadedFiles.opportunities || 
+        !state.uploadedFiles.lineItems || 
+        !state.uploadedFiles.jobTimes || 
+        !state.uploadedFiles.appointments) {
+      return;
+    }
+
+    let isCurrent = true;
+    setProcessing(true);
+    setError(null);
 
-      try {
-        // Process and integrate files
-        const integratedData = await processAndIntegrateFiles(state.uploadedFiles);
-        const summary = getDataSummary(integratedData);
-        setDataSummary(summary);
-
-        // Calculate KPIs for all technicians
-        const technicianKPIs = calculateAllTechnicianKPIs(
-          integratedData.opportunities,
-          integratedData.lineItems,
-          integratedData.jobTimes,
-          integratedData.appointments,
-          state.selectedWeek.start,
-          state.selectedWeek.end
-        );
-
-        setTechnicians(technicianKPIs);
+    const uploadedFiles = state.uploadedFiles;
+    const options = { ...parseOptionsRef.current, sheetNames: state.uploadedSheetNames };
+    let appendTarget = appendTargetRef.current;
+    const history = appendTarget
+      ? loadDataset(appendTarget.id).then(dataset => dataset?.data ?? null)
+      : Promise.resolve(null);
+
+    history
+      .then(historyData => {
+        if (!isCurrent) throw new ProcessingCancelledError();
+        // A deleted target starts a new dataset instead
+        if (!historyData) appendTarget = null;
+        return processFilesInWorker(uploadedFiles, options, historyData, periodRef.current, kpiSettingsRef.current, progress => {
+          if (isCurrent) setProgress(progress);
+        });
+      })
+      .then(({ data, technicians }) => {
+        if (!isCurrent) return;
+        processedFilesRef.current = uploadedFiles;
+        integratedDataRef.current = data;
+        setIntegratedData(data);
+        setDataSummary(getDataSummary(data));
+        setTechnicians(technicians);
         setDataLoaded(true);
-      } catch (error) {
+        setProcessing(false);
+
+        // Keep the parsed data for the next session
+        setSaveError(null);
+        saveDataset(data, uploadedFiles, appendTarget)
+          .then(info => {
+            if (!isCurrent) return;
+            saveActiveDatasetId(info.id);
+            setActiveDataset(info);
+            setDatasetsVersion(version => version + 1);
+          })
+          .catch(error => {
+            if (isCurrent) setSaveError(error instanceof Error ? error.message : 'Failed to save data');
+          });
+      })
+      .catch(error => {
+        if (!isCurrent || error instanceof ProcessingCancelledError) return;
         setError(error instanceof Error ? error.message : 'Failed to process files');
         setDataLoaded(false);
-      } finally {
-        setProcessing(false);
-      }
+      });
+
+    return () => {
+      isCurrent = false;
+      cancelProcessing();
+      setProcessing(false);
     };
+  }, [state.uploadedFiles, state.uploadedSheetNames, setProcessing, setProgress, setError, setTechnicians, setDataLoaded]);
+
+  // Recalculate KPIs for the already integrated data when the period or KPI settings change
+  useEffect(() => {
+    periodRef.current = state.period;
+    kpiSettingsRef.current = kpiSettings;
+    const data = integratedDataRef.current;
+    if (!data) return;
 
-    processFiles();
-  }, [state.uploadedFiles, state.selectedWeek, setProcessing, setError, setTechnicians, setDataLoaded]);
+    let isCurrent = true;
+    setProcessing(true);
+
+    calculateKPIsInWorker(data, state.period, kpiSettings, progress => {
+      if (isCurrent) setProgress(progress);
+    })
+      .then(technicians => {
+        if (!isCurrent) return;
+        setTechnicians(technicians);
+        setProcessing(false);
+      })
+      .catch(error => {
+        if (!isCurrent || error instanceof ProcessingCancelledError) return;
+        setError(error instanceof Error ? error.message : 'Failed to calculate KPIs');
+      });
+
+    return () => {
+      isCurrent = false;
+      cancelProcessing();
+      setProcessing(false);
+    };
+  }, [state.period, kpiSettings, setProcessing, setProgress, setError, setTechnicians]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -92,11 +343,28 @@ function AppContent() {
               </div>
             </div>
             
-            {dataSummary && (
-              <div className="text-sm text-gray-500">
-                {dataSummary.uniqueTechnicians} technicians • {dataSummary.uniqueJobs} jobs
-              </div>
-            )}
+            <div className="flex items-center space-x-4">
+              {dataSummary && (
+                <div className="text-sm text-gray-500">
+                  {dataSummary.uniqueTechnicians} technicians • {dataSummary.uniqueJobs} jobs
+                  {activeDataset && (
+                    <span title={`Saved ${formatDateTime(activeDataset.updatedAt)}`}>
+                      {' • '}Data as of {formatDateTime(activeDataset.dataAsOf)}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {state.isDataLoaded && (
+                <button
+                  onClick={() => setDataLoaded(false)}
+                  className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                >
+                  <Upload className="w-4 h-4" />
+                  <span>Upload / Saved Data</span>
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -106,9 +374,21 @@ function AppContent() {
         {!state.isDataLoaded && (
           <div className="mb-8">
             <FileUploader
+              mappingProfile={state.mappingProfile}
               onFilesChange={handleFilesChange}
               onValidationComplete={handleValidationComplete}
             />
+
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-6">
+              <MappingProfileSelector
+                profile={state.mappingProfile}
+                onProfileChange={handleMappingProfileChange}
+              />
+              <DateFormatSelector
+                dateFormat={state.dateFormat}
+                onDateFormatChange={setDateFormat}
+              />
+            </div>
             
             {validationErrors.length > 0 && (
               <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -123,15 +403,55 @@ function AppContent() {
                 </ul>
               </div>
             )}
+
+            {columnIssues.length > 0 && (
+              <div className="mt-4">
+                <ColumnMappingEditor
+                  key={state.mappingProfile.id}
+                  issues={columnIssues}
+                  profile={state.mappingProfile}
+                  onProfileSaved={handleMappingProfileChange}
+                />
+              </div>
+            )}
+
+            {activeDataset && (
+              <label className="mt-4 flex items-center justify-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={appendToHistory}
+                  onChange={(e) => setAppendToHistory(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  Add new uploads to "{activeDataset.name}" (duplicates are replaced by the newer upload)
+                </span>
+              </label>
+            )}
+
+            <div className="mt-6">
+              <DatasetManager
+                activeDatasetId={activeDataset?.id ?? null}
+                refreshKey={datasetsVersion}
+                onOpen={openDataset}
+                onActiveDatasetRemoved={handleActiveDatasetRemoved}
+              />
+            </div>
           </div>
         )}
 
-        {/* Week Selector */}
+        {/* Period Selector */}
         {state.isDataLoaded && (
           <div className="mb-8">
-            <WeekSelector
-              selectedWeek={state.selectedWeek}
-              onWeekChange={handleWeekChange}
+            <PeriodSelector
+              period={state.period}
+              onPeriodChange={setPeriod}
+              calendar={state.calendar}
+              onCalendarChange={setCalendar}
+              compareLastYear={state.compareLastYear}
+              onCompareLastYearChange={setCompareLastYear}
+              pacing={state.pacing}
+              onPacingChange={setPacing}
               dataAvailable={dataSummary?.dateRange}
             />
           </div>
@@ -139,12 +459,7 @@ function AppContent() {
 
         {/* Processing State */}
         {state.isProcessing && (
-          <div className="text-center py-12">
-            <div className="inline-flex items-center space-x-3">
-              <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
-              <span className="text-lg text-gray-700">Processing files and calculating KPIs...</span>
-            </div>
-          </div>
+          <ProcessingStatus progress={state.progress} />
         )}
 
         {/* Error State */}
@@ -166,33 +481,291 @@ function AppContent() {
         {/* Results Section */}
         {state.isDataLoaded && !state.isProcessing && state.technicians.length > 0 && (
           <div>
-            <div className="mb-6">
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                Technician Performance
-              </h2>
-              <p className="text-gray-600">
-                Showing KPIs for {state.technicians.length} technicians
-              </p>
+            <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  Technician Performance
+                </h2>
+                <p className="text-gray-600">
+                  Showing KPIs for {state.technicians.length} technicians
+                </p>
+                <div className="mt-2 space-y-2">
+                  <RevenuePrecedenceSelector
+                    precedence={state.revenuePrecedence}
+                    onPrecedenceChange={setRevenuePrecedence}
+                  />
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={state.includeZeroEfficiencyJobs}
+                      onChange={(e) => {
+                        saveIncludeZeroEfficiencyJobs(e.target.checked);
+                        setIncludeZeroEfficiencyJobs(e.target.checked);
+                      }}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>Count jobs with no sold time in job efficiency</span>
+                  </label>
+                </div>
+                {saveError && (
+                  <p className="mt-1 text-sm text-warning-600">
+                    This data could not be saved for your next visit: {saveError}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden" role="group" aria-label="Results view">
+                  {([['cards', LayoutGrid, 'Cards'], ['table', Table, 'Table']] as const).map(([view, Icon, label]) => (
+                    <button
+                      key={view}
+                      onClick={() => handleResultsViewChange(view)}
+                      className={`px-3 py-1.5 inline-flex items-center space-x-1 text-sm ${state.resultsView === view ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                      aria-pressed={state.resultsView === view}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setShowTargets(!showTargets)}
+                  className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                >
+                  <Target className="w-4 h-4" />
+                  <span>Targets</span>
+                </button>
+                <button
+                  onClick={() => setShowScoring(!showScoring)}
+                  className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                  <span>Scoring</span>
+                </button>
+                <button
+                  onClick={() => setShowTeams(!showTeams)}
+                  className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                >
+                  <Users className="w-4 h-4" />
+                  <span>Teams</span>
+                </button>
+                {integratedData && state.technicians.length >= 2 && (
+                  <button
+                    onClick={() => setCompareTechnicians(compareTechnicians ? null : getTopTechnicians(2))}
+                    className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                  >
+                    <ArrowLeftRight className="w-4 h-4" />
+                    <span>Compare</span>
+                  </button>
+                )}
+                {integratedData && (
+                  <button
+                    onClick={() => setShowCompensation(!showCompensation)}
+                    className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                  >
+                    <DollarSign className="w-4 h-4" />
+                    <span>Commissions</span>
+                  </button>
+                )}
+                {integratedData && (
+                  <button
+                    onClick={() => setShowServiceCategories(!showServiceCategories)}
+                    className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                  >
+                    <Tags className="w-4 h-4" />
+                    <span>Service Categories</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => downloadCsv(`kpis-${toDateInputValue(state.period.start)}.csv`, getKPITable(state.technicians, registry, state.period.type, scores))}
+                  className="btn-secondary inline-flex items-center space-x-2 text-sm"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download KPIs</span>
+                </button>
+              </div>
             </div>
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {state.technicians.map((technician) => (
-                <TechnicianCard
-                  key={technician.technician}
-                  technician={technician}
+            {integratedData && (
+              <div className="mb-6">
+                <RollupScorecard
+                  data={integratedData}
+                  technicians={technicianNames}
+                  teams={state.teams}
+                  period={state.period}
+                  registry={registry}
+                  revenuePrecedence={state.revenuePrecedence}
                 />
-              ))}
-            </div>
+              </div>
+            )}
+
+            {integratedData && showCompensation && (
+              <div className="mb-6">
+                <CompensationPanel
+                  data={integratedData}
+                  technicians={technicianNames}
+                  period={state.period}
+                  plan={state.compensationPlan}
+                  serviceCategories={state.serviceCategories}
+                  revenuePrecedence={state.revenuePrecedence}
+                  onPlanChange={setCompensationPlan}
+                  onClose={() => setShowCompensation(false)}
+                />
+              </div>
+            )}
+
+            {showTargets && (
+              <div className="mb-6">
+                <TargetEditor
+                  registry={registry}
+                  technicians={technicianNames}
+                  roles={state.roles}
+                  targetSets={state.targetSets}
+                  onSave={(roles, targetSets) => {
+                    setTargets(roles, targetSets);
+                    setShowTargets(false);
+                  }}
+                  onClose={() => setShowTargets(false)}
+                />
+              </div>
+            )}
+
+            {showScoring && (
+              <div className="mb-6">
+                <ScoringEditor
+                  registry={registry}
+                  model={state.scoringModel}
+                  periodType={state.period.type}
+                  periodWeeks={periodWeeks}
+                  onSave={(model) => {
+                    setScoringModel(model);
+                    setShowScoring(false);
+                  }}
+                  onClose={() => setShowScoring(false)}
+                />
+              </div>
+            )}
+
+            {showTeams && (
+              <div className="mb-6">
+                <TeamEditor
+                  teams={state.teams}
+                  technicians={technicianNames}
+                  onSave={(teams) => {
+                    setTeams(teams);
+                    setShowTeams(false);
+                  }}
+                  onClose={() => setShowTeams(false)}
+                />
+              </div>
+            )}
+
+            {integratedData && (
+              <div className="mb-6">
+                <DataQualityPanel data={integratedData} />
+              </div>
+            )}
+
+            {integratedData && showServiceCategories && (
+              <div className="mb-6">
+                <ServiceCategoryEditor
+                  rules={state.serviceCategories}
+                  lineItems={integratedData.lineItems}
+                  onSave={(rules) => {
+                    setServiceCategories(rules);
+                    setShowServiceCategories(false);
+                  }}
+                  onClose={() => setShowServiceCategories(false)}
+                />
+              </div>
+            )}
+
+            {integratedData && trendTechnician && (
+              <div className="mb-6">
+                <TrendPanel
+                  data={integratedData}
+                  technician={trendTechnician}
+                  registry={registry}
+                  revenuePrecedence={state.revenuePrecedence}
+                  weekStartsOn={state.calendar.weekStartsOn}
+                  selectedPeriod={state.period}
+                  onTechnicianChange={setTrendTechnician}
+                  onClose={() => setTrendTechnician(null)}
+                />
+              </div>
+            )}
+
+            {integratedData && compareTechnicians && (
+              <div className="mb-6">
+                <ComparePanel
+                  data={integratedData}
+                  technicians={state.technicians}
+                  selected={compareTechnicians}
+                  registry={registry}
+                  thresholds={technicianThresholds}
+                  period={state.period}
+                  revenuePrecedence={state.revenuePrecedence}
+                  weekStartsOn={state.calendar.weekStartsOn}
+                  serviceCategories={state.serviceCategories}
+                  onSelectedChange={setCompareTechnicians}
+                  onClose={() => setCompareTechnicians(null)}
+                />
+              </div>
+            )}
+
+            {state.resultsView === 'table' && integratedData ? (
+              <TechnicianTable
+                data={integratedData}
+                technicians={state.technicians}
+                registry={registry}
+                scores={scores}
+                thresholds={technicianThresholds}
+                projections={projections}
+                period={state.period}
+                teams={state.teams}
+                roles={state.roles}
+                revenuePrecedence={state.revenuePrecedence}
+                onDrillDown={(technician, kpi) => setDrilldown({ technician, kpiId: kpi.id })}
+              />
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {state.technicians.map((technician) => (
+                  <TechnicianCard
+                    key={technician.technician}
+                    technician={technician}
+                    registry={registry}
+                    score={scores.get(technician.technician) ?? { score: 0, contributions: [] }}
+                    thresholds={technicianThresholds.get(technician.technician) ?? {}}
+                    periodType={state.period.type}
+                    showLastYear={state.compareLastYear}
+                    projections={projections?.get(technician.technician)}
+                    onShowTrends={integratedData ? () => setTrendTechnician(technician.technician) : undefined}
+                    onDrillDown={integratedData ? kpi => setDrilldown({ technician: technician.technician, kpiId: kpi.id }) : undefined}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         )}
 
+        {/* Records behind a clicked KPI */}
+        {integratedData && drilldownKPI && drilldown && (
+          <KPIDrilldownDrawer
+            data={integratedData}
+            technician={drilldown.technician}
+            kpi={drilldownKPI}
+            period={state.period}
+            revenuePrecedence={state.revenuePrecedence}
+            onClose={() => setDrilldown(null)}
+          />
+        )}
+
         {/* No Data State */}
         {state.isDataLoaded && !state.isProcessing && state.technicians.length === 0 && (
           <div className="text-center py-12">
             <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Data Available</h3>
             <p className="text-gray-500">
-              No technician data found for the selected week. Try selecting a different week or check your uploaded files.
+              No technician data found for the selected period. Try selecting a different period or check your uploaded files.
             </p>
           </div>
         )}
@@ -203,7 +776,7 @@ function AppContent() {
             <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">Get Started</h3>
             <p className="text-gray-500">
-              Upload the four required Excel files to begin analyzing technician performance.
+              Upload the four required reports (Excel or CSV) to begin analyzing technician performance.
             </p>
           </div>
         )}
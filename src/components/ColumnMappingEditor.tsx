@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Columns, Save, Trash2 } from 'lucide-react';
+import type { ColumnMappingProfile, MissingColumnsIssue } from '../types';
+import {
+  DEFAULT_MAPPING_PROFILE,
+  addColumnAliases,
+  deleteMappingProfile,
+  loadMappingProfiles,
+  saveActiveMappingProfileId,
+  saveMappingProfile,
+  setReportSheetName
+} from '../services/columnMapping';
+
+interface ColumnMappingEditorProps {
+  issues: MissingColumnsIssue[];
+  profile: ColumnMappingProfile;
+  onProfileSaved: (profile: ColumnMappingProfile) => void;
+}
+
+const REPORT_LABELS: Record<MissingColumnsIssue['fileType'], string> = {
+  opportunities: 'Opportunities Report',
+  lineItems: 'Line Items Sold Report',
+  jobTimes: 'Job Times Report',
+  appointments: 'Appointments Report'
+};
+
+export function ColumnMappingEditor({ issues, profile, onProfileSaved }: ColumnMappingEditorProps) {
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [sheetSelections, setSheetSelections] = useState<Partial<Record<MissingColumnsIssue['fileType'], string>>>({});
+  const [profileName, setProfileName] = useState(
+    profile.id === DEFAULT_MAPPING_PROFILE.id ? 'Custom mapping' : profile.name
+  );
+
+  const selectionKey = (issue: MissingColumnsIssue, column: string) => `${issue.fileType}:${column}`;
+
+  // A report whose sheet was not found needs a sheet; its columns are checked once the sheet is saved
+  const isComplete = issues.every(issue =>
+    issue.sheetName === undefined
+      ? sheetSelections[issue.fileType]
+      : issue.missingColumns.every(column => selections[selectionKey(issue, column)])
+  );
+
+  const handleSave = () => {
+    let updated: ColumnMappingProfile = {
+      ...profile,
+      id: profile.id === DEFAULT_MAPPING_PROFILE.id ? `profile-${Date.now()}` : profile.id,
+      name: profileName.trim() || 'Custom mapping'
+    };
+
+    issues.forEach(issue => {
+      const sheetName = sheetSelections[issue.fileType];
+      if (issue.sheetName === undefined && sheetName) {
+        updated = setReportSheetName(updated, issue.fileType, sheetName);
+        return;
+      }
+
+      const aliases: Record<string, string> = {};
+      issue.missingColumns.forEach(column => {
+        aliases[column] = selections[selectionKey(issue, column)];
+      });
+      updated = addColumnAliases(updated, issue.fileType, aliases);
+    });
+
+    saveMappingProfile(updated);
+    saveActiveMappingProfileId(updated.id);
+    setSelections({});
+    setSheetSelections({});
+    onProfileSaved(updated);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-2 mb-2">
+        <Columns className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Fix Column Mapping</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Some required sheets or columns were not found. Pick the sheet or header in your file that holds each one.
+      </p>
+
+      <div className="space-y-4">
+        {issues.map(issue => (
+          <div key={issue.fileType} className="p-4 bg-gray-50 rounded-lg">
+            <h4 className="text-sm font-medium text-gray-900">
+              {REPORT_LABELS[issue.fileType]}{' '}
+              <span className="text-gray-500">
+                ({issue.fileName}{issue.sheetName && issue.availableSheets.length > 1 ? `, sheet "${issue.sheetName}"` : ''})
+              </span>
+            </h4>
+            {issue.sheetName === undefined && (
+              <label className="mt-3 flex items-center justify-between space-x-3 text-sm md:w-1/2">
+                <span className="font-medium text-gray-700">Sheet</span>
+                <select
+                  value={sheetSelections[issue.fileType] ?? ''}
+                  onChange={(e) => setSheetSelections(prev => ({ ...prev, [issue.fileType]: e.target.value }))}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="">Select sheet…</option>
+                  {issue.availableSheets.map(sheet => (
+                    <option key={sheet} value={sheet}>{sheet}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+              {issue.missingColumns.map(column => (
+                <label key={column} className="flex items-center justify-between space-x-3 text-sm">
+                  <span className="font-medium text-gray-700">{column}</span>
+                  <select
+                    value={selections[selectionKey(issue, column)] ?? ''}
+                    onChange={(e) => setSelections(prev => ({ ...prev, [selectionKey(issue, column)]: e.target.value }))}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="">Select header…</option>
+                    {issue.availableHeaders.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center justify-end space-x-3">
+        <input
+          type="text"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!isComplete}
+          className="btn-primary inline-flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Profile &amp; Revalidate</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface MappingProfileSelectorProps {
+  profile: ColumnMappingProfile;
+  onProfileChange: (profile: ColumnMappingProfile) => void;
+}
+
+export function MappingProfileSelector({ profile, onProfileChange }: MappingProfileSelectorProps) {
+  const [savedProfiles, setProfiles] = useState(loadMappingProfiles);
+  const profiles = savedProfiles.some(candidate => candidate.id === profile.id)
+    ? savedProfiles
+    : [...savedProfiles, profile];
+
+  const handleSelect = (profileId: string) => {
+    const selected = profiles.find(candidate => candidate.id === profileId) ?? DEFAULT_MAPPING_PROFILE;
+    saveActiveMappingProfileId(selected.id);
+    onProfileChange(selected);
+  };
+
+  const handleDelete = () => {
+    deleteMappingProfile(profile.id);
+    setProfiles(loadMappingProfiles());
+    onProfileChange(DEFAULT_MAPPING_PROFILE);
+  };
+
+  return (
+    <div className="flex items-center justify-center space-x-2 text-sm">
+      <label htmlFor="mapping-profile" className="font-medium text-gray-700">
+        Column mapping:
+      </label>
+      <select
+        id="mapping-profile"
+        value={profile.id}
+        onFocus={() => setProfiles(loadMappingProfiles())}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+      >
+        {profiles.map(candidate => (
+          <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+        ))}
+      </select>
+      {profile.id !== DEFAULT_MAPPING_PROFILE.id && (
+        <button
+          onClick={handleDelete}
+          className="p-1 text-red-500 hover:text-red-700"
+          aria-label="Delete mapping profile"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeftRight, X } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import type {
+  KPIDefinition,
+  KPIThresholds,
+  ReportType,
+  ReportingPeriod,
+  ServiceCategoryRule,
+  TechnicianKPIs
+} from '../types';
+import type { IntegratedData } from '../services/dataIntegrator';
+import { formatKPILabel, hasKPIData, isLowSampleKPI } from '../services/kpiRegistry';
+import { calculateWeeklyKPIs } from '../services/trendAnalyzer';
+import {
+  MAX_COMPARED_TECHNICIANS,
+  OTHER_CATEGORY_ID,
+  getComparisonTrend,
+  getServiceCategoryMix
+} from '../services/comparison';
+import { formatKPIDelta, formatKPIValue, formatPercentage, getKPIColor } from '../utils/formatters';
+import { formatShortDate, getPeriodLabel } from '../utils/dateHelpers';
+
+interface ComparePanelProps {
+  data: IntegratedData;
+  technicians: TechnicianKPIs[];
+  selected: string[];
+  registry: KPIDefinition[];
+  thresholds: Map<string, Record<string, KPIThresholds>>; // technician -> effective targets
+  period: ReportingPeriod;
+  revenuePrecedence: ReportType[];
+  weekStartsOn: number;
+  serviceCategories: ServiceCategoryRule[];
+  onSelectedChange: (selected: string[]) => void;
+  onClose: () => void;
+}
+
+// One color per compared technician, in selection order
+const COMPARE_COLORS = ['#2563eb', '#f59e0b', '#22c55e', '#a855f7'];
+
+const VALUE_CLASSES = {
+  success: 'text-success-600',
+  warning: 'text-warning-600',
+  danger: 'text-danger-600',
+  neutral: 'text-gray-500'
+};
+
+export function ComparePanel({
+  data,
+  technicians,
+  selected,
+  registry,
+  thresholds,
+  period,
+  revenuePrecedence,
+  weekStartsOn,
+  serviceCategories,
+  onSelectedChange,
+  onClose
+}: ComparePanelProps) {
+  const [trendKPIId, setTrendKPIId] = useState(registry[0]?.id ?? '');
+
+  const compared = selected
+    .map(name => technicians.find(technician => technician.technician === name))
+    .filter((technician): technician is TechnicianKPIs => technician !== undefined);
+  const names = compared.map(technician => technician.technician);
+  const trendKPI = registry.find(kpi => kpi.id === trendKPIId) ?? registry[0];
+
+  // Every week of the uploaded range; recalculated only when the data, week definition or KPIs change
+  const snapshots = useMemo(
+    () => calculateWeeklyKPIs(data, weekStartsOn, registry, revenuePrecedence),
+    [data, weekStartsOn, registry, revenuePrecedence]
+  );
+  const trendPoints = trendKPI
+    ? getComparisonTrend(snapshots, names, trendKPI).map(point => ({ ...point, week: formatShortDate(point.weekStart) }))
+    : [];
+
+  const mixes = useMemo(
+    () => getServiceCategoryMix(data.lineItems, selected, period, serviceCategories),
+    [data.lineItems, selected, period, serviceCategories]
+  );
+  const mixCategories = [
+    ...serviceCategories.map(rule => ({ id: rule.id, label: rule.label })),
+    { id: OTHER_CATEGORY_ID, label: 'Other' }
+  ];
+  const mixPoints = mixCategories.map(category => ({
+    category: category.label,
+    shares: Object.fromEntries(mixes.map(mix => [
+      mix.technician,
+      mix.total > 0 ? (mix.counts[category.id] / mix.total) * 100 : 0
+    ]))
+  }));
+
+  const toggleTechnician = (name: string) => {
+    // Technicians without results in this period drop out of the selection
+    if (names.includes(name)) {
+      onSelectedChange(names.filter(selectedName => selectedName !== name));
+    } else if (names.length < MAX_COMPARED_TECHNICIANS) {
+      onSelectedChange([...names, name]);
+    }
+  };
+
+  // A KPI value, or null when it has no data
+  const valueOf = (technician: TechnicianKPIs, kpi: KPIDefinition) =>
+    hasKPIData(kpi, technician.samples[kpi.id]) ? technician.kpis[kpi.id] ?? 0 : null;
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <ArrowLeftRight className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Compare Technicians</h3>
+            <p className="text-sm text-gray-500">
+              {getPeriodLabel(period)} • select two to {MAX_COMPARED_TECHNICIANS} technicians
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label="Close comparison"
+        >
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {technicians.map(technician => technician.technician).sort().map(name => {
+          const position = names.indexOf(name);
+          const isSelected = position >= 0;
+          return (
+            <button
+              key={name}
+              onClick={() => toggleTechnician(name)}
+              disabled={!isSelected && names.length >= MAX_COMPARED_TECHNICIANS}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                isSelected ? 'text-white border-transparent' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+              style={isSelected ? { backgroundColor: COMPARE_COLORS[position] } : undefined}
+              aria-pressed={isSelected}
+            >
+              {name}
+            </button>
+          );
+        })}
+      </div>
+
+      {compared.length < 2 ? (
+        <p className="text-sm text-gray-500">Select at least two technicians to compare them.</p>
+      ) : (
+        <div className="space-y-6">
+          {/* KPIs side by side: the best value in each row is highlighted and the others show their gap to it */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="pr-4 py-2 font-medium">KPI</th>
+                  {compared.map((technician, index) => (
+                    <th key={technician.technician} className="pr-4 py-2 font-medium text-right whitespace-nowrap">
+                      <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: COMPARE_COLORS[index] }} />
+                      {technician.technician}
+                    </th>
+                  ))}
+                  <th className="py-2 font-medium text-right">Spread</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 divide-y divide-gray-100">
+                {registry.map(kpi => {
+                  const values = compared.map(technician => valueOf(technician, kpi));
+                  const present = values.filter((value): value is number => value !== null);
+                  const best = present.length > 0 ? Math.max(...present) : null;
+                  const spread = present.length > 1 ? best! - Math.min(...present) : null;
+                  return (
+                    <tr key={kpi.id}>
+                      <td className="pr-4 py-2 whitespace-nowrap" title={kpi.description}>{formatKPILabel(kpi, period.type)}</td>
+                      {compared.map((technician, index) => {
+                        const value = values[index];
+                        const sample = technician.samples[kpi.id];
+                        const judged = value !== null && !isLowSampleKPI(kpi, sample);
+                        const color = getKPIColor(judged ? value : null, thresholds.get(technician.technician)?.[kpi.id] ?? kpi.thresholds);
+                        const isBest = value !== null && value === best && spread !== null && spread > 0;
+                        return (
+                          <td
+                            key={technician.technician}
+                            className={`pr-4 py-2 text-right whitespace-nowrap ${isBest ? 'bg-primary-50' : ''}`}
+                          >
+                            <div className={`${VALUE_CLASSES[color]} ${isBest ? 'font-semibold' : ''}`}>
+                              {value === null ? 'N/A' : formatKPIValue(value, kpi.unit)}
+                            </div>
+                            {value !== null && best !== null && !isBest && spread !== null && spread > 0 && (
+                              <div className="text-xs text-gray-500">{formatKPIDelta(value - best, kpi.unit)} vs best</div>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 text-right whitespace-nowrap text-gray-500">
+                        {spread === null ? '—' : formatKPIValue(spread, kpi.unit)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Overlaid weekly trends */}
+          {trendKPI && (
+            <div className="metric-card">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h4 className="text-sm font-medium text-gray-900">Weekly Trend</h4>
+                <select
+                  value={trendKPI.id}
+                  onChange={(e) => setTrendKPIId(e.target.value)}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  aria-label="Trend KPI"
+                >
+                  {registry.map(kpi => (
+                    <option key={kpi.id} value={kpi.id}>{formatKPILabel(kpi, 'week')}</option>
+                  ))}
+                </select>
+              </div>
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={trendPoints} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                  <YAxis
+                    tick={{ fontSize: 11 }}
+                    width={trendKPI.unit === 'currency' ? 70 : 40}
+                    tickFormatter={(value: number) => trendKPI.unit === 'currency' ? `$${Math.round(value).toLocaleString()}` : String(value)}
+                  />
+                  <Tooltip formatter={(value) => formatKPIValue(Number(value), trendKPI.unit)} />
+                  <Legend />
+                  {names.map((name, index) => (
+                    <Line
+                      key={name}
+                      type="monotone"
+                      dataKey={(point: (typeof trendPoints)[number]) => point.values[name]}
+                      name={name}
+                      stroke={COMPARE_COLORS[index]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+              <p className="mt-1 text-xs text-gray-500">Gaps are weeks without a value for that technician.</p>
+            </div>
+          )}
+
+          {/* Service category mix */}
+          <div className="metric-card">
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Service Category Mix</h4>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={mixPoints} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="category" tick={{ fontSize: 11 }} interval={0} />
+                <YAxis tick={{ fontSize: 11 }} width={40} tickFormatter={(value: number) => `${value}%`} />
+                <Tooltip formatter={(value) => formatPercentage(Number(value))} />
+                <Legend />
+                {names.map((name, index) => (
+                  <Bar
+                    key={name}
+                    dataKey={(point: (typeof mixPoints)[number]) => point.shares[name] ?? 0}
+                    name={name}
+                    fill={COMPARE_COLORS[index]}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="mt-1 text-xs text-gray-500">
+              Share of each technician's line items sold in the period ({mixes.filter(mix => names.includes(mix.technician)).map(mix => `${mix.technician}: ${mix.total}`).join(', ')}).
+              A line item counts toward the first service category it matches; "Other" matches none.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
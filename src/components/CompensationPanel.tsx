@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import { DollarSign, Download, Plus, Save, Trash2, X } from 'lucide-react';
+import type {
+  CommissionTierMode,
+  CompensationPlan,
+  PayoutLineKind,
+  ReportType,
+  ReportingPeriod,
+  ServiceCategoryRule
+} from '../types';
+import type { IntegratedData } from '../services/dataIntegrator';
+import {
+  COMMISSION_TIER_MODES,
+  buildPayoutStatements,
+  calculateTieredCommission,
+  getPayoutLinesTable,
+  saveCompensationPlan,
+  validateCompensationPlan
+} from '../services/compensation';
+import { downloadCsv } from '../utils/csvHelpers';
+import { formatCurrency } from '../utils/formatters';
+import { formatDate, getPeriodLabel, toDateInputValue } from '../utils/dateHelpers';
+
+interface CompensationPanelProps {
+  data: IntegratedData;
+  technicians: string[];
+  period: ReportingPeriod;
+  plan: CompensationPlan;
+  serviceCategories: ServiceCategoryRule[];
+  revenuePrecedence: ReportType[];
+  onPlanChange: (plan: CompensationPlan) => void;
+  onClose: () => void;
+}
+
+const LINE_KIND_LABELS: Record<PayoutLineKind, string> = {
+  commission: 'Commission',
+  spiff: 'Spiff',
+  membership: 'Membership'
+};
+
+const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export function CompensationPanel({
+  data,
+  technicians,
+  period,
+  plan,
+  serviceCategories,
+  revenuePrecedence,
+  onPlanChange,
+  onClose
+}: CompensationPanelProps) {
+  const [draft, setDraft] = useState<CompensationPlan>(plan);
+  const [selectedTechnician, setSelectedTechnician] = useState<string | null>(null);
+
+  const errors = validateCompensationPlan(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(plan);
+
+  // Statements use the saved plan
+  const statements = useMemo(
+    () => buildPayoutStatements(data, technicians, period, plan, serviceCategories, revenuePrecedence),
+    [data, technicians, period, plan, serviceCategories, revenuePrecedence]
+  );
+  const selected = statements.find(statement => statement.technician === selectedTechnician) ?? null;
+
+  const updateTier = (index: number, changes: Partial<{ from: number; rate: number }>) => {
+    setDraft(prev => ({ ...prev, tiers: prev.tiers.map((tier, i) => i === index ? { ...tier, ...changes } : tier) }));
+  };
+
+  const handleAddTier = () => {
+    setDraft(prev => {
+      const last = prev.tiers[prev.tiers.length - 1];
+      return { ...prev, tiers: [...prev.tiers, { from: (last?.from ?? 0) + 10000, rate: last?.rate ?? 0 }] };
+    });
+  };
+
+  const handleSave = () => {
+    saveCompensationPlan(draft);
+    onPlanChange(draft);
+  };
+
+  const handleDownload = () => {
+    downloadCsv(`payouts-${toDateInputValue(period.start)}.csv`, getPayoutLinesTable(statements));
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <DollarSign className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Commissions &amp; Spiffs</h3>
+            <p className="text-sm text-gray-500">Payout statements for {getPeriodLabel(period)}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={handleDownload} className="btn-secondary inline-flex items-center space-x-2 text-sm">
+            <Download className="w-4 h-4" />
+            <span>Download Statements</span>
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            aria-label="Close commissions"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Plan */}
+        <div className="space-y-4 text-sm">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">Revenue Commission</h4>
+              <select
+                value={draft.tierMode}
+                onChange={(e) => setDraft(prev => ({ ...prev, tierMode: e.target.value as CommissionTierMode }))}
+                className={inputClass}
+                title={COMMISSION_TIER_MODES.find(mode => mode.value === draft.tierMode)?.description}
+                aria-label="Tier mode"
+              >
+                {COMMISSION_TIER_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+            </div>
+            <table className="min-w-full">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pr-2 py-1 font-medium">From revenue</th>
+                  <th className="pr-2 py-1 font-medium">Rate %</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.tiers.map((tier, index) => (
+                  <tr key={index}>
+                    <td className="pr-2 py-1">
+                      <input
+                        type="number"
+                        min={0}
+                        value={tier.from}
+                        disabled={index === 0}
+                        onChange={(e) => updateTier(index, { from: Number(e.target.value) })}
+                        className={`${inputClass} w-28 disabled:bg-gray-100`}
+                        aria-label={`Tier ${index + 1} start`}
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.5}
+                        value={tier.rate}
+                        onChange={(e) => updateTier(index, { rate: Number(e.target.value) })}
+                        className={`${inputClass} w-20`}
+                        aria-label={`Tier ${index + 1} rate`}
+                      />
+                    </td>
+                    <td className="py-1">
+                      {index > 0 && (
+                        <button
+                          onClick={() => setDraft(prev => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }))}
+                          className="p-1 text-red-500 hover:text-red-700"
+                          aria-label={`Delete tier ${index + 1}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button onClick={handleAddTier} className="mt-2 btn-secondary inline-flex items-center space-x-2 text-sm">
+              <Plus className="w-4 h-4" />
+              <span>Add Tier</span>
+            </button>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Spiffs per Sale</h4>
+            <div className="space-y-2">
+              {serviceCategories.map(rule => (
+                <label key={rule.id} className="flex items-center justify-between space-x-2">
+                  <span className="text-gray-700">{rule.label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.spiffs[rule.id] ?? 0}
+                    onChange={(e) => setDraft(prev => ({ ...prev, spiffs: { ...prev.spiffs, [rule.id]: Number(e.target.value) } }))}
+                    className={`${inputClass} w-24`}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center justify-between space-x-2">
+                <span className="text-gray-700">Membership sold</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.membershipBonus}
+                  onChange={(e) => setDraft(prev => ({ ...prev, membershipBonus: Number(e.target.value) }))}
+                  className={`${inputClass} w-24`}
+                />
+              </label>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Spiffs are paid per sale as each service category counts them: per line item, per unit of quantity or once per job.
+            </p>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-danger-600 list-disc list-inside">
+              {errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0 || !isDirty}
+            className="btn-primary inline-flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save Plan</span>
+          </button>
+        </div>
+
+        {/* Statements */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="pr-4 py-2 font-medium">Technician</th>
+                  <th className="pr-4 py-2 font-medium text-right">Revenue</th>
+                  <th className="pr-4 py-2 font-medium text-right">Commission</th>
+                  <th className="pr-4 py-2 font-medium text-right">Spiffs</th>
+                  <th className="pr-4 py-2 font-medium text-right">Memberships</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 divide-y divide-gray-100">
+                {statements.map(statement => (
+                  <tr
+                    key={statement.technician}
+                    onClick={() => setSelectedTechnician(statement.technician === selectedTechnician ? null : statement.technician)}
+                    className={`cursor-pointer ${statement.technician === selectedTechnician ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="pr-4 py-2">{statement.technician}</td>
+                    <td className="pr-4 py-2 text-right">{formatCurrency(statement.revenue)}</td>
+                    <td className="pr-4 py-2 text-right">{formatCurrency(statement.commission)}</td>
+                    <td className="pr-4 py-2 text-right">{formatCurrency(statement.spiffs)}</td>
+                    <td className="pr-4 py-2 text-right">{formatCurrency(statement.membershipBonuses)}</td>
+                    <td className="py-2 text-right font-semibold text-gray-900">{formatCurrency(statement.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selected ? (
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h4 className="text-sm font-medium text-gray-900">
+                {selected.technician}: {selected.lines.length} payout lines
+              </h4>
+              <p className="mt-1 text-xs text-gray-500">
+                {calculateTieredCommission(selected.revenue, plan).tiers.map(tier =>
+                  `${tier.rate}% of ${formatCurrency(tier.revenue)}${tier.to !== null ? ` (${formatCurrency(tier.from)}–${formatCurrency(tier.to)})` : ` (from ${formatCurrency(tier.from)})`}`
+                ).join(' + ') || 'No commissionable revenue'}
+              </p>
+              <div className="mt-2 max-h-80 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pr-4 py-1 font-medium">Type</th>
+                      <th className="pr-4 py-1 font-medium">Date</th>
+                      <th className="pr-4 py-1 font-medium">Job</th>
+                      <th className="pr-4 py-1 font-medium">Description</th>
+                      <th className="pr-4 py-1 font-medium text-right">Basis</th>
+                      <th className="pr-4 py-1 font-medium text-right">Amount</th>
+                      <th className="py-1 font-medium">Source</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-700">
+                    {selected.lines.map((line, index) => (
+                      <tr key={`${line.kind}:${line.jobId}:${index}`}>
+                        <td className="pr-4 py-1">{LINE_KIND_LABELS[line.kind]}</td>
+                        <td className="pr-4 py-1 whitespace-nowrap">{line.date ? formatDate(line.date) : '—'}</td>
+                        <td className="pr-4 py-1">{line.jobId}</td>
+                        <td className="pr-4 py-1">{line.description}</td>
+                        <td className="pr-4 py-1 text-right">{line.kind === 'commission' ? formatCurrency(line.basis) : line.basis}</td>
+                        <td className="pr-4 py-1 text-right">{formatCurrency(line.amount)}</td>
+                        <td className="py-1 text-xs text-gray-500 whitespace-nowrap">
+                          {line.source ? `${line.source.file} row ${line.source.row}` : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Select a technician to see every line of their statement.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Download, ShieldAlert, History } from 'lucide-react';
+import type { ReportType } from '../types';
+import {
+  summarizeRejectedRows,
+  getRejectedRowsTable,
+  type IntegratedData
+} from '../services/dataIntegrator';
+import { getConflictLogTable } from '../services/historyMerger';
+import { downloadCsv } from '../utils/csvHelpers';
+import { formatCount } from '../utils/formatters';
+import { formatDateTime } from '../utils/dateHelpers';
+
+interface DataQualityPanelProps {
+  data: IntegratedData;
+}
+
+const REPORT_LABELS: Record<ReportType, string> = {
+  opportunities: 'Opportunities',
+  lineItems: 'Line Items',
+  jobTimes: 'Job Times',
+  appointments: 'Appointments'
+};
+
+const REPORT_TYPES = Object.keys(REPORT_LABELS) as ReportType[];
+
+// Most recent restatements listed in the panel; the download has all of them
+const MAX_LISTED_CONFLICTS = 50;
+
+const formatChangeValue = (value: unknown): string => {
+  if (value instanceof Date) return formatDateTime(value);
+  if (value === null || value === undefined || value === '') return '(blank)';
+  return String(value);
+};
+
+export function DataQualityPanel({ data }: DataQualityPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const rejectedCount = data.rejectedRows.length;
+  // Datasets saved before history merging have no conflict log
+  const conflicts = data.conflicts ?? [];
+  if (rejectedCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  const { byFile, byTechnician } = summarizeRejectedRows(data);
+  const recentConflicts = conflicts.slice(-MAX_LISTED_CONFLICTS).reverse();
+
+  const handleDownload = () => {
+    downloadCsv('rejected-rows.csv', getRejectedRowsTable(data.rejectedRows));
+  };
+
+  const handleDownloadConflicts = () => {
+    downloadCsv('conflict-log.csv', getConflictLogTable(conflicts));
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ShieldAlert className="w-6 h-6 text-warning-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Data Quality</h3>
+            <p className="text-sm text-gray-500">
+              {formatCount(rejectedCount)} rows were excluded by the cleaning step
+            </p>
+            {conflicts.length > 0 && (
+              <p className="text-sm text-gray-500">
+                {formatCount(conflicts.length)} records were restated by a later upload
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {rejectedCount > 0 && (
+            <button onClick={handleDownload} className="btn-secondary inline-flex items-center space-x-2 text-sm">
+              <Download className="w-4 h-4" />
+              <span>Download Rejected Rows</span>
+            </button>
+          )}
+          {conflicts.length > 0 && (
+            <button onClick={handleDownloadConflicts} className="btn-secondary inline-flex items-center space-x-2 text-sm">
+              <History className="w-4 h-4" />
+              <span>Download Conflict Log</span>
+            </button>
+          )}
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? (
+              <ChevronUp className="w-5 h-5 text-gray-600" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-600" />
+            )}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {rejectedCount > 0 && (
+            <>
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">By File</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">File</th>
+                    <th className="py-2 font-medium">Rule</th>
+                    <th className="py-2 font-medium text-right">Rejected</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byFile.map(summary => (
+                    Object.entries(summary.byRule).map(([rule, count], index) => (
+                      <tr key={`${summary.report}-${summary.file}-${rule}`} className="border-b border-gray-100">
+                        <td className="py-2 text-gray-900">
+                          {index === 0 && (
+                            <>
+                              <div className="font-medium">{REPORT_LABELS[summary.report]}</div>
+                              <div className="text-xs text-gray-500">
+                                {summary.file} · {formatCount(summary.kept)} kept
+                              </div>
+                            </>
+                          )}
+                        </td>
+                        <td className="py-2 text-gray-700">{rule}</td>
+                        <td className="py-2 text-right text-danger-600 font-medium">{formatCount(count)}</td>
+                      </tr>
+                    ))
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">By Technician</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Technician</th>
+                    {REPORT_TYPES.map(report => (
+                      <th key={report} className="py-2 font-medium text-right">{REPORT_LABELS[report]}</th>
+                    ))}
+                    <th className="py-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byTechnician.map(summary => (
+                    <tr key={summary.technician} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-900">{summary.technician || '(blank)'}</td>
+                      {REPORT_TYPES.map(report => (
+                        <td key={report} className="py-2 text-right text-gray-700">
+                          {summary.byReport[report] ? formatCount(summary.byReport[report]) : '–'}
+                        </td>
+                      ))}
+                      <td className="py-2 text-right text-danger-600 font-medium">{formatCount(summary.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            </>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="lg:col-span-2">
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Restated by Later Uploads</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Record</th>
+                    <th className="py-2 font-medium">Changes (kept newer value)</th>
+                    <th className="py-2 font-medium">Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recentConflicts.map((conflict, index) => (
+                    <tr key={`${conflict.report}-${conflict.key}-${index}`} className="border-b border-gray-100 align-top">
+                      <td className="py-2 text-gray-900">
+                        <div className="font-medium">{REPORT_LABELS[conflict.report]}</div>
+                        <div className="text-xs text-gray-500">
+                          Job {conflict.jobId} · {conflict.technician}
+                        </div>
+                      </td>
+                      <td className="py-2 text-gray-700">
+                        {conflict.changes.map(change => (
+                          <div key={change.field}>
+                            {change.field}: {formatChangeValue(change.previous)} → {formatChangeValue(change.current)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-2 text-xs text-gray-500">
+                        <div>{conflict.previousSource.file} row {conflict.previousSource.row}</div>
+                        <div>→ {conflict.currentSource.file} row {conflict.currentSource.row}</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {conflicts.length > MAX_LISTED_CONFLICTS && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the {MAX_LISTED_CONFLICTS} most recent; download the conflict log for all {formatCount(conflicts.length)}.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Database, FolderOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import {
+  listDatasets,
+  loadDataset,
+  renameDataset,
+  deleteDataset,
+  clearDatasets,
+  saveActiveDatasetId,
+  type DatasetInfo,
+  type StoredDataset
+} from '../services/datasetStore';
+import { formatDate, formatDateRange } from '../utils/dateHelpers';
+
+interface DatasetManagerProps {
+  activeDatasetId: string | null;
+  refreshKey: number;
+  onOpen: (dataset: StoredDataset) => void;
+  onActiveDatasetRemoved: () => void;
+}
+
+export function DatasetManager({ activeDatasetId, refreshKey, onOpen, onActiveDatasetRemoved }: DatasetManagerProps) {
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listDatasets()
+      .then(setDatasets)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load saved data'));
+  };
+
+  // Reload whenever the parent saves a new dataset
+  useEffect(() => {
+    listDatasets()
+      .then(setDatasets)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load saved data'));
+  }, [refreshKey]);
+
+  // Run a store operation, then reload the list
+  const run = async (operation: () => Promise<void>) => {
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Saved data operation failed');
+    }
+    refresh();
+  };
+
+  const handleOpen = (id: string) => run(async () => {
+    const dataset = await loadDataset(id);
+    if (!dataset) {
+      throw new Error('Saved dataset could not be read');
+    }
+    saveActiveDatasetId(id);
+    onOpen(dataset);
+  });
+
+  const handleRename = (id: string) => run(async () => {
+    await renameDataset(id, editingName);
+    setEditingId(null);
+  });
+
+  const handleDelete = (dataset: DatasetInfo) => run(async () => {
+    if (!window.confirm(`Delete saved data "${dataset.name}"?`)) return;
+    await deleteDataset(dataset.id);
+    if (dataset.id === activeDatasetId) onActiveDatasetRemoved();
+  });
+
+  const handleClearAll = () => run(async () => {
+    if (!window.confirm('Delete all saved data from this browser?')) return;
+    await clearDatasets();
+    if (activeDatasetId) onActiveDatasetRemoved();
+  });
+
+  if (datasets.length === 0 && !error) return null;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Database className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Saved Data</h3>
+        </div>
+        {datasets.length > 0 && (
+          <button onClick={handleClearAll} className="text-sm text-red-600 hover:text-red-700 font-medium">
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600">{error}</p>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {datasets.map(dataset => (
+          <li key={dataset.id} className="py-3 flex items-center justify-between">
+            <div className="min-w-0">
+              {editingId === dataset.id ? (
+                <div className="flex items-center space-x-2">
+                  <input
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(dataset.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    aria-label="Dataset name"
+                    autoFocus
+                  />
+                  <button onClick={() => handleRename(dataset.id)} className="text-success-600" aria-label="Save name">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-gray-500" aria-label="Cancel rename">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <p className="text-sm font-medium text-gray-900">
+                  {dataset.name}
+                  {dataset.id === activeDatasetId && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium text-primary-600 bg-primary-100">
+                      Open
+                    </span>
+                  )}
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                {dataset.dateRange.start && dataset.dateRange.end
+                  ? formatDateRange(dataset.dateRange.start, dataset.dateRange.end)
+                  : 'No dated records'}
+                {' • '}{dataset.technicianCount} technicians • {dataset.jobCount} jobs
+                {' • '}data as of {formatDate(dataset.dataAsOf)}
+              </p>
+              <p className="text-xs text-gray-400 truncate" title={dataset.files.map(file => `${file.name} (SHA-256 ${file.sha256})`).join('\n')}>
+                {dataset.files.map(file => file.name).join(', ')}
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2 ml-4">
+              <button
+                onClick={() => handleOpen(dataset.id)}
+                className="p-1 text-primary-600 hover:text-primary-700"
+                aria-label={`Open ${dataset.name}`}
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => {
+                  setEditingId(dataset.id);
+                  setEditingName(dataset.name);
+                }}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                aria-label={`Rename ${dataset.name}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(dataset)}
+                className="p-1 text-red-500 hover:text-red-700"
+                aria-label={`Delete ${dataset.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
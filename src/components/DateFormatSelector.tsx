@@ -0,0 +1,33 @@
+import { DATE_FORMATS, type DateFormat } from '../utils/dateHelpers';
+import { saveDateFormat } from '../services/settings';
+
+interface DateFormatSelectorProps {
+  dateFormat: DateFormat;
+  onDateFormatChange: (format: DateFormat) => void;
+}
+
+export function DateFormatSelector({ dateFormat, onDateFormatChange }: DateFormatSelectorProps) {
+  const handleChange = (format: DateFormat) => {
+    saveDateFormat(format);
+    onDateFormatChange(format);
+  };
+
+  return (
+    <div className="flex items-center justify-center space-x-2 text-sm">
+      <label htmlFor="date-format" className="font-medium text-gray-700">
+        Text date format:
+      </label>
+      <select
+        id="date-format"
+        value={dateFormat}
+        onChange={(e) => handleChange(e.target.value as DateFormat)}
+        className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        title="Excel date cells, serial numbers and ISO dates are always recognized"
+      >
+        {DATE_FORMATS.map(format => (
+          <option key={format} value={format}>{format}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,292 +1,316 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, FileSpreadsheet, X, CheckCircle, AlertCircle } from 'lucide-react';
-import type { UploadedFiles } from '../types';
-import { isValidExcelFile, isValidFileSize, formatFileSize } from '../utils/formatters';
+import React, { useState, useCallback, useRef } from 'react';
+import { Upload, FileSpreadsheet, X, CheckCircle, AlertCircle, Circle } from 'lucide-react';
+import type { UploadedFiles, ReportSheetNames, ColumnMappingProfile, MissingColumnsIssue, ReportType } from '../types';
+import { isValidReportFile, isValidFileSize, formatFileSize, formatPercentage } from '../utils/formatters';
 import { validateUploadedFiles } from '../services/dataIntegrator';
+import {
+  detectReportTypes,
+  assignFilesToReports,
+  assignSheetsToReports,
+  getAssignedReports,
+  MIN_DETECTION_CONFIDENCE,
+  type DetectedFile
+} from '../services/reportDetector';
 
 interface FileUploaderProps {
-  onFilesChange: (files: UploadedFiles) => void;
-  onValidationComplete: (isValid: boolean, errors: string[]) => void;
+  mappingProfile: ColumnMappingProfile;
+  onFilesChange: (files: UploadedFiles, sheetNames: ReportSheetNames) => void;
+  onValidationComplete: (isValid: boolean, errors: string[], columnIssues: MissingColumnsIssue[]) => void;
 }
 
-interface FileUploadState {
-  file: File | null;
-  isUploaded: boolean;
-  error: string | null;
-  isDragOver: boolean;
+interface RejectedFile {
+  name: string;
+  error: string;
 }
 
-export function FileUploader({ onFilesChange, onValidationComplete }: FileUploaderProps) {
-  const [fileStates, setFileStates] = useState<Record<keyof UploadedFiles, FileUploadState>>({
-    opportunities: { file: null, isUploaded: false, error: null, isDragOver: false },
-    lineItems: { file: null, isUploaded: false, error: null, isDragOver: false },
-    jobTimes: { file: null, isUploaded: false, error: null, isDragOver: false },
-    appointments: { file: null, isUploaded: false, error: null, isDragOver: false }
-  });
+const REPORT_TYPES: ReportType[] = ['opportunities', 'lineItems', 'jobTimes', 'appointments'];
 
-  const [isValidating, setIsValidating] = useState(false);
+const getFileTypeLabel = (fileType: ReportType): string => {
+  switch (fileType) {
+    case 'opportunities': return 'Opportunities Report';
+    case 'lineItems': return 'Line Items Sold Report';
+    case 'jobTimes': return 'Job Times Report';
+    case 'appointments': return 'Appointments Report';
+    default: return fileType;
+  }
+};
 
-  const handleFileUpload = useCallback(async (
-    fileType: keyof UploadedFiles,
-    file: File
-  ) => {
-    // Reset error state
-    setFileStates(prev => ({
-      ...prev,
-      [fileType]: { ...prev[fileType], error: null }
-    }));
+const getFileTypeDescription = (fileType: ReportType): string => {
+  switch (fileType) {
+    case 'opportunities': return 'Sales opportunities and outcomes';
+    case 'lineItems': return 'Detailed service/product breakdowns';
+    case 'jobTimes': return 'Time efficiency and job completion metrics';
+    case 'appointments': return 'Appointment scheduling and completion tracking';
+    default: return '';
+  }
+};
 
-    // Validate file type
-    if (!isValidExcelFile(file)) {
-      setFileStates(prev => ({
-        ...prev,
-        [fileType]: {
-          ...prev[fileType],
-          file: null,
-          isUploaded: false,
-          error: 'File must be an Excel file (.xlsx or .xls)'
-        }
-      }));
-      return;
-    }
+const getConfidenceColor = (confidence: number): string => {
+  if (confidence >= 0.8) return 'text-success-600 bg-success-100';
+  if (confidence >= MIN_DETECTION_CONFIDENCE) return 'text-warning-600 bg-warning-100';
+  return 'text-gray-600 bg-gray-100';
+};
 
-    // Validate file size
-    if (!isValidFileSize(file)) {
-      setFileStates(prev => ({
-        ...prev,
-        [fileType]: {
-          ...prev[fileType],
-          file: null,
-          isUploaded: false,
-          error: 'File size must be under 10MB'
-        }
-      }));
-      return;
-    }
+export function FileUploader({ mappingProfile, onFilesChange, onValidationComplete }: FileUploaderProps) {
+  const [detectedFiles, setDetectedFiles] = useState<DetectedFile[]>([]);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
 
-    // Update file state
-    setFileStates(prev => ({
-      ...prev,
-      [fileType]: {
-        ...prev[fileType],
-        file,
-        isUploaded: true,
-        error: null
-      }
-    }));
+  // Latest list, so concurrent drops and overrides never work from a stale copy
+  const detectedFilesRef = useRef<DetectedFile[]>([]);
+  // Id of the latest validation; results from an earlier run are ignored
+  const validationIdRef = useRef(0);
 
-    // Update parent component
-    const currentFiles: UploadedFiles = {
-      opportunities: fileStates.opportunities.file,
-      lineItems: fileStates.lineItems.file,
-      jobTimes: fileStates.jobTimes.file,
-      appointments: fileStates.appointments.file
-    };
-    
-    const updatedFiles: UploadedFiles = {
-      ...currentFiles,
-      [fileType]: file
-    };
-    
-    onFilesChange(updatedFiles);
-
-    // Validate all files
-    await validateAllFiles(updatedFiles);
-  }, [fileStates, onFilesChange]);
-
-  const validateAllFiles = async (files: UploadedFiles) => {
+  const validateAllFiles = useCallback(async (files: UploadedFiles, sheetNames: ReportSheetNames) => {
+    const validationId = ++validationIdRef.current;
     setIsValidating(true);
     try {
-      const result = await validateUploadedFiles(files);
-      onValidationComplete(result.isValid, result.errors);
+      const result = await validateUploadedFiles(files, mappingProfile, sheetNames);
+      if (validationId !== validationIdRef.current) return;
+      onValidationComplete(result.isValid, result.errors, result.columnIssues);
     } catch (error) {
-      onValidationComplete(false, [error instanceof Error ? error.message : 'Validation failed']);
+      if (validationId !== validationIdRef.current) return;
+      onValidationComplete(false, [error instanceof Error ? error.message : 'Validation failed'], []);
     } finally {
-      setIsValidating(false);
+      if (validationId === validationIdRef.current) {
+        setIsValidating(false);
+      }
     }
-  };
+  }, [mappingProfile, onValidationComplete]);
 
-  const handleDragOver = useCallback((e: React.DragEvent, fileType: keyof UploadedFiles) => {
-    e.preventDefault();
-    setFileStates(prev => ({
-      ...prev,
-      [fileType]: { ...prev[fileType], isDragOver: true }
+  const updateDetectedFiles = useCallback((updater: (current: DetectedFile[]) => DetectedFile[]) => {
+    const next = updater(detectedFilesRef.current);
+    detectedFilesRef.current = next;
+    setDetectedFiles(next);
+
+    // Update parent component and validate the resulting slots
+    const updatedFiles = assignFilesToReports(next);
+    const sheetNames = assignSheetsToReports(next);
+    onFilesChange(updatedFiles, sheetNames);
+    validateAllFiles(updatedFiles, sheetNames);
+  }, [onFilesChange, validateAllFiles]);
+
+  const handleFilesUpload = useCallback(async (files: File[]) => {
+    const rejected: RejectedFile[] = [];
+    const accepted: File[] = [];
+
+    files.forEach(file => {
+      if (!isValidReportFile(file)) {
+        rejected.push({ name: file.name, error: 'File must be an Excel, CSV or TSV file' });
+      } else if (!isValidFileSize(file)) {
+        rejected.push({ name: file.name, error: 'File size must be under 10MB' });
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    setIsDetecting(true);
+    const detected = await Promise.all(accepted.map(async (file, index): Promise<DetectedFile | null> => {
+      try {
+        return {
+          id: `${Date.now()}-${index}-${file.name}`,
+          file,
+          detections: await detectReportTypes(file, mappingProfile),
+          override: 'auto'
+        };
+      } catch (error) {
+        rejected.push({ name: file.name, error: error instanceof Error ? error.message : 'Failed to read file' });
+        return null;
+      }
     }));
+    setIsDetecting(false);
+
+    setRejectedFiles(rejected);
+    const newFiles = detected.filter((entry): entry is DetectedFile => entry !== null);
+    if (newFiles.length > 0) {
+      updateDetectedFiles(current => [...current, ...newFiles]);
+    }
+  }, [mappingProfile, updateDetectedFiles]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(true);
   }, []);
 
-  const handleDragLeave = useCallback((e: React.DragEvent, fileType: keyof UploadedFiles) => {
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    setFileStates(prev => ({
-      ...prev,
-      [fileType]: { ...prev[fileType], isDragOver: false }
-    }));
+    setIsDragOver(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent, fileType: keyof UploadedFiles) => {
+  const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    setFileStates(prev => ({
-      ...prev,
-      [fileType]: { ...prev[fileType], isDragOver: false }
-    }));
+    setIsDragOver(false);
 
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileUpload(fileType, files[0]);
+      handleFilesUpload(files);
     }
-  }, [handleFileUpload]);
+  }, [handleFilesUpload]);
 
-  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>, fileType: keyof UploadedFiles) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileUpload(fileType, file);
+  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      handleFilesUpload(files);
     }
-  }, [handleFileUpload]);
+    // Allow re-selecting the same file
+    e.target.value = '';
+  }, [handleFilesUpload]);
 
-  const removeFile = useCallback((fileType: keyof UploadedFiles) => {
-    setFileStates(prev => ({
-      ...prev,
-      [fileType]: { file: null, isUploaded: false, error: null, isDragOver: false }
-    }));
+  const removeFile = useCallback((id: string) => {
+    updateDetectedFiles(current => current.filter(entry => entry.id !== id));
+  }, [updateDetectedFiles]);
 
-    const currentFiles: UploadedFiles = {
-      opportunities: fileStates.opportunities.file,
-      lineItems: fileStates.lineItems.file,
-      jobTimes: fileStates.jobTimes.file,
-      appointments: fileStates.appointments.file
-    };
-    
-    const updatedFiles: UploadedFiles = {
-      ...currentFiles,
-      [fileType]: null
-    };
-    
-    onFilesChange(updatedFiles);
-  }, [fileStates, onFilesChange]);
-
-  const getFileTypeLabel = (fileType: keyof UploadedFiles): string => {
-    switch (fileType) {
-      case 'opportunities': return 'Opportunities Report';
-      case 'lineItems': return 'Line Items Sold Report';
-      case 'jobTimes': return 'Job Times Report';
-      case 'appointments': return 'Appointments Report';
-      default: return fileType;
-    }
-  };
-
-  const getFileTypeDescription = (fileType: keyof UploadedFiles): string => {
-    switch (fileType) {
-      case 'opportunities': return 'Sales opportunities and outcomes';
-      case 'lineItems': return 'Detailed service/product breakdowns';
-      case 'jobTimes': return 'Time efficiency and job completion metrics';
-      case 'appointments': return 'Appointment scheduling and completion tracking';
-      default: return '';
-    }
-  };
+  const setOverride = useCallback((id: string, override: DetectedFile['override']) => {
+    updateDetectedFiles(current => current.map(entry => (entry.id === id ? { ...entry, override } : entry)));
+  }, [updateDetectedFiles]);
+
+  const assignedFiles = assignFilesToReports(detectedFiles);
 
   return (
     <div className="space-y-6">
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Upload Excel Files</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Upload Report Files</h2>
         <p className="text-gray-600">
-          Upload the four required Excel files to generate KPI reports
+          Drop all of your reports (Excel or CSV) at once; each file is recognized automatically
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {(Object.keys(fileStates) as Array<keyof UploadedFiles>).map((fileType) => {
-          const state = fileStates[fileType];
-          
-          return (
-            <div
-              key={fileType}
-              className={`upload-zone ${
-                state.isDragOver ? 'active' : ''
-              } ${state.isUploaded ? 'border-green-500 bg-green-50' : ''}`}
-              onDragOver={(e) => handleDragOver(e, fileType)}
-              onDragLeave={(e) => handleDragLeave(e, fileType)}
-              onDrop={(e) => handleDrop(e, fileType)}
-            >
-              <div className="flex flex-col items-center space-y-4">
-                <div className="flex items-center space-x-2">
-                  <FileSpreadsheet className="w-8 h-8 text-gray-400" />
-                  <div className="text-center">
-                    <h3 className="font-semibold text-gray-900">
-                      {getFileTypeLabel(fileType)}
-                    </h3>
-                    <p className="text-sm text-gray-500">
-                      {getFileTypeDescription(fileType)}
-                    </p>
-                  </div>
-                </div>
+      <div
+        className={`upload-zone ${isDragOver ? 'active' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <input
+          type="file"
+          accept=".xlsx,.xls,.csv,.tsv,.txt"
+          multiple
+          onChange={handleFileInput}
+          className="hidden"
+          id="file-input-reports"
+        />
+        <label
+          htmlFor="file-input-reports"
+          className="cursor-pointer flex flex-col items-center space-y-2"
+        >
+          <Upload className="w-10 h-10 text-gray-400" />
+          <div className="text-center">
+            <p className="text-sm font-medium text-gray-700">
+              Click to upload or drag and drop any number of files
+            </p>
+            <p className="text-xs text-gray-500">
+              Excel or CSV/TSV exports (.xlsx, .xls, .csv, .tsv)
+            </p>
+          </div>
+        </label>
+      </div>
 
-                {state.isUploaded && state.file ? (
-                  <div className="w-full">
-                    <div className="flex items-center justify-between p-3 bg-green-100 rounded-lg">
-                      <div className="flex items-center space-x-2">
-                        <CheckCircle className="w-5 h-5 text-green-600" />
-                        <div>
-                          <p className="text-sm font-medium text-green-800">
-                            {state.file.name}
-                          </p>
-                          <p className="text-xs text-green-600">
-                            {formatFileSize(state.file.size)}
-                          </p>
-                        </div>
-                      </div>
-                      <button
-                        onClick={() => removeFile(fileType)}
-                        className="text-red-500 hover:text-red-700"
-                      >
-                        <X className="w-4 h-4" />
-                      </button>
+      {rejectedFiles.length > 0 && (
+        <div className="space-y-1">
+          {rejectedFiles.map(rejected => (
+            <div key={rejected.name} className="flex items-center space-x-2 text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{rejected.name}: {rejected.error}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {detectedFiles.length > 0 && (
+        <div className="space-y-3">
+          {detectedFiles.map(entry => {
+            const assigned = getAssignedReports(entry);
+
+            return (
+              <div key={entry.id} className="flex items-center justify-between p-3 bg-white border border-gray-200 rounded-lg">
+                <div className="flex items-center space-x-3">
+                  <FileSpreadsheet className="w-6 h-6 text-gray-400" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{entry.file.name}</p>
+                    <div className="mt-1 flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-gray-500">{formatFileSize(entry.file.size)}</span>
+                      {entry.detections.length === 0 && (
+                        <span className="text-xs text-red-600">No report recognized</span>
+                      )}
+                      {entry.detections.map(detection => (
+                        <span
+                          key={detection.reportType}
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${getConfidenceColor(detection.confidence)}`}
+                          title={`${detection.matchedColumns}/${detection.requiredColumns} required columns on sheet "${detection.sheetName}"`}
+                        >
+                          {getFileTypeLabel(detection.reportType)} · {formatPercentage(detection.confidence * 100, 0)}
+                        </span>
+                      ))}
                     </div>
                   </div>
-                ) : (
-                  <div className="w-full">
-                    <input
-                      type="file"
-                      accept=".xlsx,.xls"
-                      onChange={(e) => handleFileInput(e, fileType)}
-                      className="hidden"
-                      id={`file-input-${fileType}`}
-                    />
-                    <label
-                      htmlFor={`file-input-${fileType}`}
-                      className="cursor-pointer flex flex-col items-center space-y-2"
-                    >
-                      <Upload className="w-8 h-8 text-gray-400" />
-                      <div className="text-center">
-                        <p className="text-sm font-medium text-gray-700">
-                          Click to upload or drag and drop
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          Excel files only (.xlsx, .xls)
-                        </p>
-                      </div>
-                    </label>
-                  </div>
-                )}
+                </div>
 
-                {state.error && (
-                  <div className="flex items-center space-x-2 text-red-600">
-                    <AlertCircle className="w-4 h-4" />
-                    <span className="text-sm">{state.error}</span>
-                  </div>
-                )}
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={entry.override}
+                    onChange={(e) => setOverride(entry.id, e.target.value as DetectedFile['override'])}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    aria-label={`Report type for ${entry.file.name}`}
+                  >
+                    <option value="auto">
+                      Auto{assigned.length > 0 && entry.override === 'auto' ? ` (${assigned.length})` : ''}
+                    </option>
+                    {REPORT_TYPES.map(reportType => (
+                      <option key={reportType} value={reportType}>{getFileTypeLabel(reportType)}</option>
+                    ))}
+                    <option value="ignore">Ignore</option>
+                  </select>
+                  <button
+                    onClick={() => removeFile(entry.id)}
+                    className="text-red-500 hover:text-red-700"
+                    aria-label={`Remove ${entry.file.name}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {REPORT_TYPES.map(reportType => {
+          const file = assignedFiles[reportType];
+
+          return (
+            <div
+              key={reportType}
+              className={`flex items-center space-x-3 p-3 rounded-lg border ${
+                file ? 'border-green-500 bg-green-50' : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              {file ? (
+                <CheckCircle className="w-5 h-5 text-green-600" />
+              ) : (
+                <Circle className="w-5 h-5 text-gray-400" />
+              )}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900">{getFileTypeLabel(reportType)}</h3>
+                <p className="text-xs text-gray-500">
+                  {file ? file.name : getFileTypeDescription(reportType)}
+                </p>
               </div>
             </div>
           );
         })}
       </div>
 
-      {isValidating && (
+      {(isDetecting || isValidating) && (
         <div className="text-center">
           <div className="inline-flex items-center space-x-2 text-blue-600">
             <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-            <span>Validating files...</span>
+            <span>{isDetecting ? 'Detecting report types...' : 'Validating files...'}</span>
           </div>
         </div>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
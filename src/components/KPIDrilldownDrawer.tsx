@@ -0,0 +1,259 @@
+import { Fragment, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, FileSpreadsheet, Search, X } from 'lucide-react';
+import type {
+  KPIDefinition,
+  KPIRecordRole,
+  KPIRecordRow,
+  KPIUnit,
+  ProcessedRecord,
+  ReportType,
+  ReportingPeriod
+} from '../types';
+import type { IntegratedData } from '../services/dataIntegrator';
+import { getKPIRecordRows } from '../services/kpiCalculator';
+import { formatKPILabel } from '../services/kpiRegistry';
+import { formatHours, formatKPIValue } from '../utils/formatters';
+import { formatDate, getPeriodLabel } from '../utils/dateHelpers';
+
+interface KPIDrilldownDrawerProps {
+  data: IntegratedData;
+  technician: string;
+  kpi: KPIDefinition;
+  period: ReportingPeriod;
+  revenuePrecedence: ReportType[];
+  onClose: () => void;
+}
+
+type SortKey = 'date' | 'jobId' | 'report' | 'detail' | 'amount' | 'role';
+
+const REPORT_NAMES: Record<ReportType, string> = {
+  opportunities: 'Opportunities',
+  lineItems: 'Line Items',
+  jobTimes: 'Job Times',
+  appointments: 'Appointments'
+};
+
+const ROLE_LABELS: Record<KPIRecordRole, string> = {
+  numerator: 'Counted',
+  denominator: 'Denominator only',
+  excluded: 'Excluded'
+};
+
+const ROLE_CLASSES: Record<KPIRecordRole, string> = {
+  numerator: 'bg-success-100 text-success-700',
+  denominator: 'bg-warning-100 text-warning-700',
+  excluded: 'bg-gray-100 text-gray-600'
+};
+
+const ROLE_ORDER: KPIRecordRole[] = ['numerator', 'denominator', 'excluded'];
+
+const COLUMNS: { key: SortKey; label: string; align?: 'right' }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'jobId', label: 'Job' },
+  { key: 'report', label: 'Report' },
+  { key: 'detail', label: 'Record' },
+  { key: 'amount', label: 'Amount', align: 'right' },
+  { key: 'role', label: 'Counts as' }
+];
+
+/**
+ * Format a row's amount in its unit
+ */
+function formatAmount(amount: number, unit: KPIUnit | 'hours'): string {
+  return unit === 'hours' ? formatHours(amount) : formatKPIValue(amount, unit);
+}
+
+/**
+ * Sort value of a row for a column
+ */
+function getSortValue(row: KPIRecordRow, key: SortKey): number | string {
+  switch (key) {
+    case 'date':
+      return row.date?.getTime() ?? 0;
+    case 'amount':
+      return row.amount;
+    case 'role':
+      return ROLE_ORDER.indexOf(row.role);
+    case 'report':
+      return REPORT_NAMES[row.report];
+    default:
+      return row[key].toLowerCase();
+  }
+}
+
+/**
+ * Parsed fields of a source record, as label/value pairs
+ */
+function getRecordFields(record: ProcessedRecord): [string, string][] {
+  return Object.entries(record)
+    .filter(([key]) => key !== 'source')
+    .map(([key, value]) => [
+      key.replace(/([A-Z])/g, ' $1').replace(/^./, letter => letter.toUpperCase()),
+      value instanceof Date ? formatDate(value) : typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value ?? '')
+    ]);
+}
+
+export function KPIDrilldownDrawer({ data, technician, kpi, period, revenuePrecedence, onClose }: KPIDrilldownDrawerProps) {
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'date', ascending: true });
+  const [openSource, setOpenSource] = useState<number | null>(null);
+
+  const rows = useMemo(
+    () => getKPIRecordRows(data, technician, kpi, period, revenuePrecedence),
+    [data, technician, kpi, period, revenuePrecedence]
+  );
+
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    // Keep each row's position as a stable key for the source detail toggle
+    const indexed = rows.map((row, index) => ({ row, index }));
+    const filtered = query
+      ? indexed.filter(({ row }) =>
+          [row.jobId, row.detail, row.reason ?? '', row.record.source.file, REPORT_NAMES[row.report]]
+            .some(text => text.toLowerCase().includes(query))
+        )
+      : indexed;
+
+    return filtered.sort((a, b) => {
+      const first = getSortValue(a.row, sort.key);
+      const second = getSortValue(b.row, sort.key);
+      const order = first < second ? -1 : first > second ? 1 : 0;
+      return sort.ascending ? order : -order;
+    });
+  }, [rows, search, sort]);
+
+  const roleCounts = ROLE_ORDER.map(role => ({ role, count: rows.filter(row => row.role === role).length }))
+    .filter(({ count }) => count > 0);
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-gray-900/30" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-full bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={`${formatKPILabel(kpi, period.type)} records`}
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {formatKPILabel(kpi, period.type)}: {technician}
+              </h3>
+              <p className="text-sm text-gray-500">{getPeriodLabel(period)} • {kpi.description}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+              aria-label="Close records"
+            >
+              <X className="w-5 h-5 text-gray-600" />
+            </button>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search job, record or file"
+                className="pl-8 pr-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            {roleCounts.map(({ role, count }) => (
+              <span key={role} className={`px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_CLASSES[role]}`}>
+                {count} {ROLE_LABELS[role].toLowerCase()}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No records behind this KPI in the selected period.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  {COLUMNS.map(column => (
+                    <th key={column.key} className={`pr-4 py-2 font-medium ${column.align === 'right' ? 'text-right' : ''}`}>
+                      <button onClick={() => handleSort(column.key)} className="inline-flex items-center space-x-1 hover:text-gray-900">
+                        <span>{column.label}</span>
+                        {sort.key === column.key && (sort.ascending
+                          ? <ArrowUp className="w-3 h-3" />
+                          : <ArrowDown className="w-3 h-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-2 font-medium">Source</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 divide-y divide-gray-100">
+                {visibleRows.map(({ row, index: key }) => {
+                  const { source } = row.record;
+                  return (
+                    <Fragment key={key}>
+                      <tr className={row.role === 'excluded' ? 'text-gray-400' : ''}>
+                        <td className="pr-4 py-2 whitespace-nowrap">{row.date ? formatDate(row.date) : '—'}</td>
+                        <td className="pr-4 py-2">{row.jobId}</td>
+                        <td className="pr-4 py-2 whitespace-nowrap">{REPORT_NAMES[row.report]}</td>
+                        <td className="pr-4 py-2">{row.detail}</td>
+                        <td className="pr-4 py-2 text-right whitespace-nowrap">{formatAmount(row.amount, row.amountUnit)}</td>
+                        <td className="pr-4 py-2">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${ROLE_CLASSES[row.role]}`}
+                            title={row.reason}
+                          >
+                            {ROLE_LABELS[row.role]}
+                          </span>
+                          {row.reason && <div className="mt-0.5 text-xs text-gray-500">{row.reason}</div>}
+                        </td>
+                        <td className="py-2">
+                          <button
+                            onClick={() => setOpenSource(openSource === key ? null : key)}
+                            className="inline-flex items-center space-x-1 text-primary-600 hover:text-primary-800 whitespace-nowrap"
+                            title={`${source.file}, sheet ${source.sheet}`}
+                          >
+                            <FileSpreadsheet className="w-4 h-4" />
+                            <span>{source.file} row {source.row}</span>
+                          </button>
+                        </td>
+                      </tr>
+                      {openSource === key && (
+                        <tr>
+                          <td colSpan={COLUMNS.length + 1} className="py-2">
+                            <div className="p-3 bg-gray-50 rounded-lg">
+                              <p className="text-xs text-gray-500 mb-2">
+                                {source.file} • sheet "{source.sheet}" • row {source.row}
+                              </p>
+                              <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1 text-xs">
+                                {getRecordFields(row.record).map(([label, value]) => (
+                                  <div key={label}>
+                                    <dt className="inline text-gray-500">{label}: </dt>
+                                    <dd className="inline text-gray-900">{value}</dd>
+                                  </div>
+                                ))}
+                              </dl>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          {rows.length > 0 && visibleRows.length === 0 && (
+            <p className="mt-3 text-sm text-gray-500">No records match "{search}".</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
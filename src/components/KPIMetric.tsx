@@ -1,14 +1,78 @@
 
-import { Info } from 'lucide-react';
-import { formatCurrency, formatPercentage, formatCount, getKPIColor } from '../utils/formatters';
-import { KPI_THRESHOLDS } from '../services/kpiCalculator';
+import { Info, ArrowUpRight, ArrowDownRight, Minus } from 'lucide-react';
+import { LineChart, Line, YAxis } from 'recharts';
+import type { KPIComparison, KPISample, KPIUnit } from '../types';
+import { formatCurrency, formatPercentage, formatKPIValue, formatKPIDelta, getKPIColor } from '../utils/formatters';
+import type { KPIProjection } from '../services/pacing';
 
 interface KPIMetricProps {
   name: string;
   value: number;
-  unit: 'currency' | 'percentage' | 'count';
+  unit: KPIUnit;
   description: string;
   thresholds?: { good: number; warning: number };
+  comparison?: KPIComparison;
+  showLastYear?: boolean;
+  projection?: KPIProjection; // when pacing, color by the projected end-of-period value
+  sample?: KPISample; // shown for rate KPIs
+  noData?: boolean; // a rate without a denominator, shown as N/A
+  lowSample?: boolean; // too few records to color good or poor
+  confidenceInterval?: { lower: number; upper: number } | null;
+  onClick?: () => void; // opens the records behind the value
+}
+
+interface KPIDeltaProps {
+  value: number;
+  compared: number | null;
+  unit: KPIUnit;
+  label: string;
+}
+
+/**
+ * Absolute and percent change from an earlier value, green when up and red when down
+ */
+function KPIDelta({ value, compared, unit, label }: KPIDeltaProps) {
+  if (compared === null) {
+    return <div className="text-xs text-gray-400">No data {label}</div>;
+  }
+
+  const delta = value - compared;
+  const percentChange = compared !== 0 ? (delta / Math.abs(compared)) * 100 : null;
+  const Icon = delta > 0 ? ArrowUpRight : delta < 0 ? ArrowDownRight : Minus;
+  const colorClass = delta > 0 ? 'text-success-600' : delta < 0 ? 'text-danger-600' : 'text-gray-500';
+
+  return (
+    <div className={`flex items-center space-x-1 text-xs ${colorClass}`}>
+      <Icon className="w-3 h-3" />
+      <span className="font-medium">
+        {formatKPIDelta(delta, unit)}
+        {percentChange !== null && ` (${percentChange > 0 ? '+' : ''}${percentChange.toFixed(1)}%)`}
+      </span>
+      <span className="text-gray-500">{label}</span>
+    </div>
+  );
+}
+
+/**
+ * Tiny line of a KPI over the most recent periods; gaps are periods without records
+ */
+function Sparkline({ values }: { values: (number | null)[] }) {
+  const points = values.map((value, index) => ({ index, value }));
+
+  return (
+    <LineChart width={80} height={28} data={points} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+      <YAxis hide domain={['dataMin', 'dataMax']} />
+      <Line
+        type="monotone"
+        dataKey="value"
+        stroke="#2563eb"
+        strokeWidth={1.5}
+        dot={false}
+        connectNulls={false}
+        isAnimationActive={false}
+      />
+    </LineChart>
+  );
 }
 
 export function KPIMetric({ 
@@ -16,24 +80,21 @@ export function KPIMetric({
   value, 
   unit, 
   description, 
-  thresholds 
+  thresholds,
+  comparison,
+  showLastYear = false,
+  projection,
+  sample,
+  noData = false,
+  lowSample = false,
+  confidenceInterval,
+  onClick
 }: KPIMetricProps) {
-  const formatValue = () => {
-    switch (unit) {
-      case 'currency':
-        return formatCurrency(value);
-      case 'percentage':
-        return formatPercentage(value);
-      case 'count':
-        return formatCount(value);
-      default:
-        return value.toString();
-    }
-  };
+  const formatValue = () => noData ? 'N/A' : formatKPIValue(value, unit);
 
   const getColor = () => {
-    if (!thresholds) return 'neutral';
-    return getKPIColor(value, thresholds);
+    if (!thresholds || noData || lowSample) return 'neutral';
+    return getKPIColor(projection ? projection.projected : value, thresholds);
   };
 
   const color = getColor();
@@ -45,7 +106,19 @@ export function KPIMetric({
   };
 
   return (
-    <div className={`metric-card border-l-4 border-l-${color === 'success' ? 'success' : color === 'warning' ? 'warning' : color === 'danger' ? 'danger' : 'gray'}-500`}>
+    <div
+      className={`metric-card border-l-4 border-l-${color === 'success' ? 'success' : color === 'warning' ? 'warning' : color === 'danger' ? 'danger' : 'gray'}-500 ${onClick ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}`}
+      onClick={onClick}
+      onKeyDown={onClick && ((e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onClick();
+        }
+      })}
+      role={onClick ? 'button' : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      title={onClick ? 'Show the records behind this number' : undefined}
+    >
       <div className="flex items-start justify-between">
         <div className="flex-1">
           <div className="flex items-center space-x-2 mb-1">
@@ -62,6 +135,51 @@ export function KPIMetric({
           <div className={`text-2xl font-bold ${colorClasses[color]}`}>
             {formatValue()}
           </div>
+
+          {sample && (
+            <div className="mt-1 text-xs text-gray-500">
+              {noData ? (
+                'No records to calculate from'
+              ) : (
+                <>
+                  <span title="Records this value is based on">n = {sample.sampleSize}</span>
+                  {confidenceInterval && (
+                    <span title="95% Wilson confidence interval">
+                      {' • '}95% CI {formatPercentage(confidenceInterval.lower, 0)}–{formatPercentage(confidenceInterval.upper, 0)}
+                    </span>
+                  )}
+                  {lowSample && <span className="text-warning-600"> • too few to judge</span>}
+                </>
+              )}
+            </div>
+          )}
+
+          {projection && (
+            <div className="mt-1 text-xs text-gray-600">
+              <div>
+                On pace for <span className="font-medium">{formatKPIValue(projection.runRate, unit)}</span>
+              </div>
+              {projection.booked > projection.actual && (
+                <div className="text-gray-500">
+                  {formatKPIValue(projection.booked, unit)} with booked appointments
+                </div>
+              )}
+            </div>
+          )}
+
+          {comparison && !noData && (
+            <div className="mt-2 flex items-end justify-between gap-2">
+              <div className="space-y-0.5">
+                <KPIDelta value={value} compared={comparison.previous} unit={unit} label="vs previous period" />
+                {showLastYear && (
+                  <KPIDelta value={value} compared={comparison.lastYear} unit={unit} label="vs last year" />
+                )}
+              </div>
+              <div title={`Last ${comparison.history.length} periods`}>
+                <Sparkline values={comparison.history} />
+              </div>
+            </div>
+          )}
           
           {thresholds && (
             <div className="mt-2 text-xs text-gray-500">
@@ -78,100 +196,3 @@ export function KPIMetric({
     </div>
   );
 }
-
-// Predefined KPI components for common metrics
-export function AverageTicketValueMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Average Ticket Value"
-      value={value}
-      unit="currency"
-      description="Total revenue divided by number of completed jobs"
-      thresholds={KPI_THRESHOLDS.averageTicketValue}
-    />
-  );
-}
-
-export function JobCloseRateMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Job Close Rate"
-      value={value}
-      unit="percentage"
-      description="Percentage of opportunities that resulted in won jobs"
-      thresholds={KPI_THRESHOLDS.jobCloseRate}
-    />
-  );
-}
-
-export function WeeklyRevenueMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Weekly Revenue"
-      value={value}
-      unit="currency"
-      description="Total revenue generated in the selected week"
-      thresholds={KPI_THRESHOLDS.weeklyRevenue}
-    />
-  );
-}
-
-export function JobEfficiencyMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Job Efficiency"
-      value={value}
-      unit="percentage"
-      description="Average efficiency percentage across all jobs"
-      thresholds={KPI_THRESHOLDS.jobEfficiency}
-    />
-  );
-}
-
-export function MembershipWinRateMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Membership Win Rate"
-      value={value}
-      unit="percentage"
-      description="Percentage of membership opportunities that were sold"
-      thresholds={KPI_THRESHOLDS.membershipWinRate}
-    />
-  );
-}
-
-export function HydroJettingJobsMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Hydro Jetting Jobs"
-      value={value}
-      unit="count"
-      description="Number of hydro jetting services sold"
-      thresholds={KPI_THRESHOLDS.hydroJettingJobsSold}
-    />
-  );
-}
-
-export function DescalingJobsMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Descaling Jobs"
-      value={value}
-      unit="count"
-      description="Number of descaling services sold"
-      thresholds={KPI_THRESHOLDS.descalingJobsSold}
-    />
-  );
-}
-
-export function WaterHeaterJobsMetric({ value }: { value: number }) {
-  return (
-    <KPIMetric
-      name="Water Heater Jobs"
-      value={value}
-      unit="count"
-      description="Number of water heater services sold"
-      thresholds={KPI_THRESHOLDS.waterHeaterJobsSold}
-    />
-  );
-} 
\ No newline at end of file
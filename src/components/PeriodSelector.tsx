@@ -0,0 +1,341 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { 
+  getCurrentPeriod,
+  getCustomPeriod,
+  getPeriodRange,
+  getPeriodLabel,
+  shiftPeriod,
+  parseDate,
+  toDateInputValue,
+  formatDateRange, 
+  PERIOD_TYPES,
+  WEEKDAY_NAMES,
+  BUSINESS_TIME_ZONES
+} from '../utils/dateHelpers';
+import { saveCalendarSettings, saveCompareLastYear, savePacing } from '../services/settings';
+import { getPeriodPacing } from '../services/pacing';
+import type { CalendarSettings, PeriodType, ReportingPeriod } from '../types';
+
+interface PeriodSelectorProps {
+  period: ReportingPeriod;
+  onPeriodChange: (period: ReportingPeriod) => void;
+  calendar: CalendarSettings;
+  onCalendarChange: (calendar: CalendarSettings) => void;
+  compareLastYear: boolean;
+  onCompareLastYearChange: (compareLastYear: boolean) => void;
+  pacing: boolean;
+  onPacingChange: (pacing: boolean) => void;
+  dataAvailable?: { start: Date | null; end: Date | null };
+}
+
+const MAX_ROLLING_DAYS = 366;
+
+const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export function PeriodSelector({ 
+  period, 
+  onPeriodChange, 
+  calendar,
+  onCalendarChange,
+  compareLastYear,
+  onCompareLastYearChange,
+  pacing,
+  onPacingChange,
+  dataAvailable 
+}: PeriodSelectorProps) {
+  const { weekStartsOn } = calendar;
+  // Year-to-date and rolling periods are defined by their last day
+  const endsOnAnchor = period.type === 'ytd' || period.type === 'rolling';
+
+  const handleTypeChange = (type: PeriodType) => {
+    if (type === 'custom') {
+      onPeriodChange(getCustomPeriod(period.start, period.end, period.rollingDays));
+      return;
+    }
+    const anchor = type === 'ytd' || type === 'rolling' ? period.end : period.start;
+    onPeriodChange(getPeriodRange(type, anchor, weekStartsOn, period.rollingDays));
+  };
+
+  const handleRollingDaysChange = (value: string) => {
+    const days = Math.round(Number(value));
+    if (!Number.isFinite(days) || days < 1 || days > MAX_ROLLING_DAYS) return;
+    onPeriodChange(getPeriodRange('rolling', period.end, weekStartsOn, days));
+  };
+
+  const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // The input yields YYYY-MM-DD, which must be read as a local calendar day
+    const selectedDate = parseDate(e.target.value);
+    if (!selectedDate) return;
+
+    onPeriodChange(getPeriodRange(period.type, selectedDate, weekStartsOn, period.rollingDays));
+  };
+
+  const handleCustomChange = (bound: 'start' | 'end', value: string) => {
+    const selectedDate = parseDate(value);
+    if (!selectedDate) return;
+
+    onPeriodChange(bound === 'start'
+      ? getCustomPeriod(selectedDate, period.end, period.rollingDays)
+      : getCustomPeriod(period.start, selectedDate, period.rollingDays));
+  };
+
+  const handleCalendarChange = (changes: Partial<CalendarSettings>) => {
+    const updated = { ...calendar, ...changes };
+    saveCalendarSettings(updated);
+    onCalendarChange(updated);
+  };
+
+  const handleCompareLastYearChange = (checked: boolean) => {
+    saveCompareLastYear(checked);
+    onCompareLastYearChange(checked);
+  };
+
+  const handlePacingChange = (checked: boolean) => {
+    savePacing(checked);
+    onPacingChange(checked);
+  };
+
+  const toggleWorkingDay = (day: number) => {
+    const workingDays = calendar.workingDays.includes(day)
+      ? calendar.workingDays.filter(workingDay => workingDay !== day)
+      : [...calendar.workingDays, day].sort();
+    handleCalendarChange({ workingDays });
+  };
+
+  const periodPacing = getPeriodPacing(period, calendar);
+
+  const timeZones = BUSINESS_TIME_ZONES.includes(calendar.timeZone)
+    ? BUSINESS_TIME_ZONES
+    : [calendar.timeZone, ...BUSINESS_TIME_ZONES];
+
+  const periodName = PERIOD_TYPES.find(option => option.value === period.type)?.label.toLowerCase() ?? 'period';
+  const isDataAvailable = dataAvailable?.start && dataAvailable?.end;
+  const isPeriodInDataRange = isDataAvailable && 
+    period.end >= dataAvailable.start! && 
+    period.start <= dataAvailable.end!;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-5 h-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Reporting Period</h3>
+          </div>
+          
+          {isDataAvailable && (
+            <div className="text-sm text-gray-500">
+              Data available: {formatDateRange(dataAvailable.start!, dataAvailable.end!)}
+            </div>
+          )}
+        </div>
+
+        {period.type !== 'custom' && (
+          <button
+            onClick={() => onPeriodChange(getCurrentPeriod(period.type, calendar, period.rollingDays))}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            {period.type === 'day' ? 'Today' : endsOnAnchor ? 'Through Today' : `Current ${periodName}`}
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="period-type" className="font-medium text-gray-700">
+            Period:
+          </label>
+          <select
+            id="period-type"
+            value={period.type}
+            onChange={(e) => handleTypeChange(e.target.value as PeriodType)}
+            className={inputClass}
+          >
+            {PERIOD_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {period.type === 'rolling' && (
+          <div className="flex items-center space-x-2">
+            <label htmlFor="rolling-days" className="font-medium text-gray-700">
+              Days:
+            </label>
+            <input
+              id="rolling-days"
+              type="number"
+              min={1}
+              max={MAX_ROLLING_DAYS}
+              value={period.rollingDays}
+              onChange={(e) => handleRollingDaysChange(e.target.value)}
+              className={`${inputClass} w-20`}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <button
+          onClick={() => onPeriodChange(shiftPeriod(period, -1, weekStartsOn))}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label={`Previous ${periodName}`}
+        >
+          <ChevronLeft className="w-5 h-5 text-gray-600" />
+        </button>
+
+        <div className="flex flex-wrap items-center justify-center gap-4">
+          <div className="text-center">
+            <div className="text-lg font-semibold text-gray-900">
+              {getPeriodLabel(period)}
+            </div>
+            <div className="text-sm text-gray-500">
+              {formatDateRange(period.start, period.end)}
+            </div>
+            {pacing && periodPacing.inProgress && (
+              <div className="text-xs text-primary-600">
+                {periodPacing.elapsedDays} of {periodPacing.totalDays} working days elapsed
+              </div>
+            )}
+          </div>
+
+          {period.type === 'custom' ? (
+            <div className="flex items-center space-x-2 text-sm">
+              <label htmlFor="period-start" className="font-medium text-gray-700">From:</label>
+              <input
+                id="period-start"
+                type="date"
+                value={toDateInputValue(period.start)}
+                onChange={(e) => handleCustomChange('start', e.target.value)}
+                className={inputClass}
+              />
+              <label htmlFor="period-end" className="font-medium text-gray-700">To:</label>
+              <input
+                id="period-end"
+                type="date"
+                value={toDateInputValue(period.end)}
+                onChange={(e) => handleCustomChange('end', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <label htmlFor="period-picker" className="text-sm font-medium text-gray-700">
+                {endsOnAnchor ? 'Ending:' : 'Jump to:'}
+              </label>
+              <input
+                id="period-picker"
+                type="date"
+                value={toDateInputValue(endsOnAnchor ? period.end : period.start)}
+                onChange={handleDateChange}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => onPeriodChange(shiftPeriod(period, 1, weekStartsOn))}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label={`Next ${periodName}`}
+        >
+          <ChevronRight className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center gap-4 text-sm">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="week-start" className="font-medium text-gray-700">
+            Week starts on:
+          </label>
+          <select
+            id="week-start"
+            value={calendar.weekStartsOn}
+            onChange={(e) => handleCalendarChange({ weekStartsOn: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {WEEKDAY_NAMES.map((name, index) => (
+              <option key={name} value={index}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <label htmlFor="time-zone" className="font-medium text-gray-700">
+            Business time zone:
+          </label>
+          <select
+            id="time-zone"
+            value={calendar.timeZone}
+            onChange={(e) => handleCalendarChange({ timeZone: e.target.value })}
+            className={inputClass}
+          >
+            {timeZones.map(timeZone => (
+              <option key={timeZone} value={timeZone}>{timeZone.replace('_', ' ')}</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={compareLastYear}
+            onChange={(e) => handleCompareLastYearChange(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Compare with same period last year</span>
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={pacing}
+            onChange={(e) => handlePacingChange(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Pace against targets while the period is in progress</span>
+        </label>
+
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-gray-700">Working days:</span>
+          {WEEKDAY_NAMES.map((name, index) => (
+            <button
+              key={name}
+              onClick={() => toggleWorkingDay(index)}
+              className={`w-9 py-1 rounded-md text-xs font-medium border ${calendar.workingDays.includes(index) ? 'bg-primary-50 border-primary-300 text-primary-700' : 'border-gray-200 text-gray-400'}`}
+              aria-pressed={calendar.workingDays.includes(index)}
+              title={name}
+            >
+              {name.slice(0, 3)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isDataAvailable && !isPeriodInDataRange && (
+        <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center space-x-2">
+            <div className="w-2 h-2 bg-yellow-400 rounded-full"></div>
+            <span className="text-sm text-yellow-800">
+              Selected {periodName} is outside available data range. No data will be shown.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {!isDataAvailable && (
+        <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-center space-x-2">
+            <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
+            <span className="text-sm text-gray-600">
+              Upload files to see data availability
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
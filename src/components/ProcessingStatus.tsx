@@ -0,0 +1,63 @@
+import { Loader2 } from 'lucide-react';
+import type { ProcessingProgress, ProcessingStage, ReportType } from '../types';
+
+interface ProcessingStatusProps {
+  progress: ProcessingProgress | null;
+}
+
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  reading: 'Reading files',
+  parsing: 'Parsing workbooks',
+  cleaning: 'Cleaning data',
+  computing: 'Calculating KPIs'
+};
+
+const FILE_LABELS: Record<ReportType, string> = {
+  opportunities: 'Opportunities',
+  lineItems: 'Line Items',
+  jobTimes: 'Job Times',
+  appointments: 'Appointments'
+};
+
+export function ProcessingStatus({ progress }: ProcessingStatusProps) {
+  const percent = progress?.percent ?? 0;
+  const showFiles = progress && (progress.stage === 'reading' || progress.stage === 'parsing');
+
+  return (
+    <div className="text-center py-12">
+      <div className="inline-flex items-center space-x-3">
+        <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+        <span className="text-lg text-gray-700">
+          {progress ? `${STAGE_LABELS[progress.stage]}...` : 'Processing files and calculating KPIs...'}
+        </span>
+        <span className="text-lg font-semibold text-primary-600">{percent}%</span>
+      </div>
+
+      <div className="mt-4 max-w-md mx-auto">
+        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary-600 transition-all duration-200"
+            style={{ width: `${percent}%` }}
+          ></div>
+        </div>
+
+        {showFiles && (
+          <div className="mt-4 space-y-2">
+            {(Object.keys(progress.files) as ReportType[]).map(fileType => (
+              <div key={fileType} className="flex items-center space-x-3 text-xs text-gray-600">
+                <span className="w-24 text-left">{FILE_LABELS[fileType]}</span>
+                <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary-400 transition-all duration-200"
+                    style={{ width: `${Math.round(progress.files[fileType])}%` }}
+                  ></div>
+                </div>
+                <span className="w-10 text-right">{Math.round(progress.files[fileType])}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { ChevronLeft } from 'lucide-react';
+import type { ReportType } from '../types';
+import { saveRevenuePrecedence } from '../services/settings';
+
+interface RevenuePrecedenceSelectorProps {
+  precedence: ReportType[];
+  onPrecedenceChange: (precedence: ReportType[]) => void;
+}
+
+const REPORT_NAMES: Record<ReportType, string> = {
+  opportunities: 'Opportunities',
+  appointments: 'Appointments',
+  jobTimes: 'Job times',
+  lineItems: 'Line items'
+};
+
+export function RevenuePrecedenceSelector({ precedence, onPrecedenceChange }: RevenuePrecedenceSelectorProps) {
+  // Swap a report with the one before it
+  const moveEarlier = (index: number) => {
+    const updated = [...precedence];
+    [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+    saveRevenuePrecedence(updated);
+    onPrecedenceChange(updated);
+  };
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 text-sm"
+      title="Each job's revenue is taken from the first report that lists the job, so it is counted once"
+    >
+      <span className="font-medium text-gray-700">Revenue source:</span>
+      {precedence.map((report, index) => (
+        <span key={report} className="inline-flex items-center">
+          {index > 0 && (
+            <button
+              onClick={() => moveEarlier(index)}
+              className="p-0.5 text-gray-400 hover:text-primary-600"
+              aria-label={`Prefer ${REPORT_NAMES[report]} over ${REPORT_NAMES[precedence[index - 1]]}`}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+          )}
+          <span className={`px-2 py-0.5 rounded-full ${index === 0 ? 'bg-primary-100 text-primary-700' : 'bg-gray-100 text-gray-700'}`}>
+            {REPORT_NAMES[report]}
+          </span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useMemo } from 'react';
+import { Building2 } from 'lucide-react';
+import type { KPIDefinition, ReportType, ReportingPeriod, Team } from '../types';
+import type { IntegratedData } from '../services/dataIntegrator';
+import { formatKPILabel, getKPIConfidenceInterval, hasKPIData } from '../services/kpiRegistry';
+import { calculateRollups } from '../services/rollupCalculator';
+import { COMPANY_GROUP_NAME } from '../services/teams';
+import { formatKPIValue, formatPercentage } from '../utils/formatters';
+import { getPeriodLabel } from '../utils/dateHelpers';
+
+interface RollupScorecardProps {
+  data: IntegratedData;
+  technicians: string[];
+  teams: Team[];
+  period: ReportingPeriod;
+  registry: KPIDefinition[];
+  revenuePrecedence: ReportType[];
+}
+
+export function RollupScorecard({ data, technicians, teams, period, registry, revenuePrecedence }: RollupScorecardProps) {
+  const rollups = useMemo(
+    () => calculateRollups(data, technicians, teams, period, registry, revenuePrecedence),
+    [data, technicians, teams, period, registry, revenuePrecedence]
+  );
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-3 mb-4">
+        <Building2 className="w-6 h-6 text-primary-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Company Scorecard</h3>
+          <p className="text-sm text-gray-500">
+            {getPeriodLabel(period)} • rates are calculated from the pooled records, not averaged across technicians
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="pr-4 py-2 font-medium">Group</th>
+              <th className="pr-4 py-2 font-medium text-right">Techs</th>
+              {registry.map(kpi => (
+                <th key={kpi.id} className="pr-4 py-2 font-medium text-right whitespace-nowrap" title={kpi.description}>
+                  {formatKPILabel(kpi, period.type)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-gray-700 divide-y divide-gray-100">
+            {rollups.map(rollup => (
+              <tr key={rollup.group} className={rollup.group === COMPANY_GROUP_NAME ? 'font-semibold text-gray-900' : ''}>
+                <td className="pr-4 py-2 whitespace-nowrap" title={rollup.members.join(', ')}>{rollup.group}</td>
+                <td className="pr-4 py-2 text-right">{rollup.members.length}</td>
+                {registry.map(kpi => {
+                  const sample = rollup.samples[kpi.id];
+                  const interval = getKPIConfidenceInterval(kpi, sample);
+                  const title = kpi.rate && sample
+                    ? `n = ${sample.sampleSize}${interval ? `, 95% CI ${formatPercentage(interval.lower, 0)}–${formatPercentage(interval.upper, 0)}` : ''}`
+                    : undefined;
+                  return (
+                    <td key={kpi.id} className="pr-4 py-2 text-right whitespace-nowrap" title={title}>
+                      {hasKPIData(kpi, sample) ? formatKPIValue(rollup.kpis[kpi.id] ?? 0, kpi.unit) : 'N/A'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
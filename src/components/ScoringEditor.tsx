@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { RotateCcw, Save, SlidersHorizontal, X } from 'lucide-react';
+import type { KPIDefinition, KPIScoreSetting, PeriodType, ScoreNormalization, ScoringModel } from '../types';
+import { formatKPILabel, getKPIScoreTarget } from '../services/kpiRegistry';
+import {
+  DEFAULT_SCORE_SETTING,
+  SCORE_NORMALIZATIONS,
+  getKPIScoreSetting,
+  saveScoringModel,
+  validateScoreSetting
+} from '../services/scoring';
+import { formatKPIValue } from '../utils/formatters';
+
+interface ScoringEditorProps {
+  registry: KPIDefinition[];
+  model: ScoringModel;
+  periodType: PeriodType;
+  periodWeeks: number; // length of the selected period in working weeks
+  onSave: (model: ScoringModel) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export function ScoringEditor({ registry, model, periodType, periodWeeks, onSave, onClose }: ScoringEditorProps) {
+  const [drafts, setDrafts] = useState<ScoringModel>(
+    () => Object.fromEntries(registry.map(kpi => [kpi.id, getKPIScoreSetting(model, kpi.id)]))
+  );
+
+  const totalWeight = Object.values(drafts).reduce((sum, setting) => sum + (setting.weight > 0 ? setting.weight : 0), 0);
+  const errors = Object.values(drafts).flatMap(validateScoreSetting);
+
+  const update = (kpiId: string, changes: Partial<KPIScoreSetting>) => {
+    setDrafts(prev => ({ ...prev, [kpiId]: { ...prev[kpiId], ...changes } }));
+  };
+
+  const handleReset = () => {
+    setDrafts(Object.fromEntries(registry.map(kpi => [kpi.id, DEFAULT_SCORE_SETTING])));
+  };
+
+  const handleSave = () => {
+    saveScoringModel(drafts);
+    onSave(drafts);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <SlidersHorizontal className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Performance Score</h3>
+            <p className="text-sm text-gray-500">How much each KPI counts toward the 0-100 score and how it is scored</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label="Close scoring"
+        >
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="pr-4 py-2 font-medium">KPI</th>
+              <th className="pr-4 py-2 font-medium">Weight</th>
+              <th className="pr-4 py-2 font-medium">Share</th>
+              <th className="pr-4 py-2 font-medium">Normalization</th>
+              <th className="py-2 font-medium">Cap (% of target)</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-700 divide-y divide-gray-100">
+            {registry.map(kpi => {
+              const setting = drafts[kpi.id];
+              return (
+                <tr key={kpi.id}>
+                  <td className="pr-4 py-2">
+                    <div className="font-medium text-gray-900">{formatKPILabel(kpi, periodType)}</div>
+                    <div className="text-xs text-gray-500">
+                      {kpi.cumulative
+                        ? `Target ${formatKPIValue(kpi.scoreTarget, kpi.unit)} per week, ${formatKPIValue(getKPIScoreTarget(kpi, periodWeeks), kpi.unit)} this period`
+                        : `Target ${formatKPIValue(kpi.scoreTarget, kpi.unit)}`}
+                    </div>
+                  </td>
+                  <td className="pr-4 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={setting.weight}
+                      onChange={(e) => update(kpi.id, { weight: Number(e.target.value) })}
+                      className={`${inputClass} w-20`}
+                      aria-label={`Weight of ${kpi.label}`}
+                    />
+                  </td>
+                  <td className="pr-4 py-2 text-gray-500">
+                    {totalWeight > 0 && setting.weight > 0 ? `${Math.round((setting.weight / totalWeight) * 100)}%` : '—'}
+                  </td>
+                  <td className="pr-4 py-2">
+                    <select
+                      value={setting.normalization}
+                      onChange={(e) => update(kpi.id, { normalization: e.target.value as ScoreNormalization })}
+                      className={inputClass}
+                      title={SCORE_NORMALIZATIONS.find(option => option.value === setting.normalization)?.description}
+                      aria-label={`Normalization of ${kpi.label}`}
+                    >
+                      {SCORE_NORMALIZATIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min={100}
+                      step={10}
+                      value={setting.cap}
+                      onChange={(e) => update(kpi.id, { cap: Number(e.target.value) })}
+                      disabled={setting.normalization !== 'target'}
+                      className={`${inputClass} w-24 disabled:bg-gray-100 disabled:text-gray-400`}
+                      aria-label={`Cap of ${kpi.label}`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <ul className="mt-4 text-xs text-gray-500 space-y-1">
+        {SCORE_NORMALIZATIONS.map(option => (
+          <li key={option.value}><span className="font-medium">{option.label}:</span> {option.description}</li>
+        ))}
+        <li>A weight of 0 leaves the KPI out of the score. A cap above 100% lets beating one target make up for missing another; the total never exceeds 100.</li>
+      </ul>
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        {errors.length > 0 && (
+          <span className="text-sm text-danger-600">{Array.from(new Set(errors)).join('. ')}</span>
+        )}
+        <button onClick={handleReset} className="btn-secondary inline-flex items-center space-x-2">
+          <RotateCcw className="w-4 h-4" />
+          <span>Equal Weights</span>
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={errors.length > 0}
+          className="btn-primary inline-flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Scoring</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useMemo, useState } from 'react';
+import { Plus, RotateCcw, Save, Tags, Trash2, X } from 'lucide-react';
+import type { ProcessedLineItem, ServiceCategoryField, ServiceCategoryRule, ServiceCountMode } from '../types';
+import {
+  DEFAULT_SERVICE_CATEGORIES,
+  SERVICE_COUNT_MODES,
+  createServiceCategoryRule,
+  getServiceCategoryPreview,
+  saveServiceCategories,
+  validateServiceCategoryRule
+} from '../services/serviceCategories';
+import { formatDate } from '../utils/dateHelpers';
+
+interface ServiceCategoryEditorProps {
+  rules: ServiceCategoryRule[];
+  lineItems: ProcessedLineItem[];
+  onSave: (rules: ServiceCategoryRule[]) => void;
+  onClose: () => void;
+}
+
+// Keywords are edited as comma-separated text
+type RuleDraft = Omit<ServiceCategoryRule, 'include' | 'exclude'> & { include: string; exclude: string };
+
+const MAX_PREVIEW_ROWS = 50;
+
+const FIELD_LABELS: Record<ServiceCategoryField, string> = {
+  lineItem: 'Line item',
+  category: 'Category'
+};
+
+function toDraft(rule: ServiceCategoryRule): RuleDraft {
+  return { ...rule, include: rule.include.join(', '), exclude: rule.exclude.join(', ') };
+}
+
+function splitKeywords(text: string): string[] {
+  return text.split(',').map(keyword => keyword.trim()).filter(Boolean);
+}
+
+function fromDraft(draft: RuleDraft): ServiceCategoryRule {
+  return { ...draft, label: draft.label.trim(), include: splitKeywords(draft.include), exclude: splitKeywords(draft.exclude) };
+}
+
+const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export function ServiceCategoryEditor({ rules, lineItems, onSave, onClose }: ServiceCategoryEditorProps) {
+  const [drafts, setDrafts] = useState<RuleDraft[]>(() => rules.map(toDraft));
+  const [selectedId, setSelectedId] = useState<string | null>(rules[0]?.id ?? null);
+
+  const selected = drafts.find(draft => draft.id === selectedId) ?? null;
+  const errorsById = useMemo(
+    () => new Map(drafts.map(draft => [draft.id, validateServiceCategoryRule(fromDraft(draft))])),
+    [drafts]
+  );
+  const hasErrors = Array.from(errorsById.values()).some(errors => errors.length > 0);
+
+  // Preview the rule as currently edited, before it is saved
+  const preview = useMemo(() => {
+    if (!selected) return null;
+    const rule = fromDraft(selected);
+    return validateServiceCategoryRule(rule).length === 0 ? getServiceCategoryPreview(lineItems, rule) : null;
+  }, [lineItems, selected]);
+
+  const updateSelected = (changes: Partial<RuleDraft>) => {
+    setDrafts(prev => prev.map(draft => draft.id === selectedId ? { ...draft, ...changes } : draft));
+  };
+
+  const handleAdd = () => {
+    const draft = toDraft(createServiceCategoryRule());
+    setDrafts(prev => [...prev, draft]);
+    setSelectedId(draft.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const remaining = drafts.filter(draft => draft.id !== id);
+    setDrafts(remaining);
+    if (id === selectedId) setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace all service categories with the built-in defaults?')) return;
+    setDrafts(DEFAULT_SERVICE_CATEGORIES.map(toDraft));
+    setSelectedId(DEFAULT_SERVICE_CATEGORIES[0].id);
+  };
+
+  const handleSave = () => {
+    const updated = drafts.map(fromDraft);
+    saveServiceCategories(updated);
+    onSave(updated);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <Tags className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Service Categories</h3>
+            <p className="text-sm text-gray-500">Rules deciding which line items count toward each "jobs sold" KPI</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label="Close service categories"
+        >
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Rule list */}
+        <div>
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {drafts.map(draft => (
+              <li key={draft.id} className="flex items-center justify-between">
+                <button
+                  onClick={() => setSelectedId(draft.id)}
+                  className={`flex-1 px-3 py-2 text-left text-sm ${draft.id === selectedId ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {draft.label.trim() || 'Untitled category'}
+                  {(errorsById.get(draft.id)?.length ?? 0) > 0 && (
+                    <span className="ml-2 text-xs text-danger-600">needs fixing</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleDelete(draft.id)}
+                  className="p-2 text-red-500 hover:text-red-700"
+                  aria-label={`Delete ${draft.label || 'category'}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button onClick={handleAdd} className="btn-secondary inline-flex items-center space-x-2 text-sm">
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+            <button onClick={handleReset} className="btn-secondary inline-flex items-center space-x-2 text-sm">
+              <RotateCcw className="w-4 h-4" />
+              <span>Defaults</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Selected rule */}
+        {selected && (
+          <div className="lg:col-span-3 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Name</span>
+                <input value={selected.label} onChange={(e) => updateSelected({ label: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Match against</span>
+                <select
+                  value={selected.field}
+                  onChange={(e) => updateSelected({ field: e.target.value as ServiceCategoryField })}
+                  className={inputClass}
+                >
+                  {Object.entries(FIELD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Include keywords (comma-separated)</span>
+                <input value={selected.include} onChange={(e) => updateSelected({ include: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Exclude keywords (comma-separated)</span>
+                <input value={selected.exclude} onChange={(e) => updateSelected({ exclude: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Regular expression (optional, case-insensitive)</span>
+                <input value={selected.pattern} onChange={(e) => updateSelected({ pattern: e.target.value })} className={`${inputClass} font-mono`} />
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Count</span>
+                <select
+                  value={selected.countMode}
+                  onChange={(e) => updateSelected({ countMode: e.target.value as ServiceCountMode })}
+                  className={inputClass}
+                >
+                  {SERVICE_COUNT_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-end gap-3 md:col-span-2">
+                <label className="flex flex-col space-y-1">
+                  <span className="font-medium text-gray-700">Good at (weekly)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={selected.thresholds.good}
+                    onChange={(e) => updateSelected({ thresholds: { ...selected.thresholds, good: Number(e.target.value) } })}
+                    className={`${inputClass} w-24`}
+                  />
+                </label>
+                <label className="flex flex-col space-y-1">
+                  <span className="font-medium text-gray-700">Warning at (weekly)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={selected.thresholds.warning}
+                    onChange={(e) => updateSelected({ thresholds: { ...selected.thresholds, warning: Number(e.target.value) } })}
+                    className={`${inputClass} w-24`}
+                  />
+                </label>
+                <label className="flex flex-col space-y-1">
+                  <span className="font-medium text-gray-700">Full score at (weekly)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={selected.scoreTarget}
+                    onChange={(e) => updateSelected({ scoreTarget: Number(e.target.value) })}
+                    className={`${inputClass} w-24`}
+                  />
+                </label>
+              </div>
+            </div>
+
+            {(errorsById.get(selected.id)?.length ?? 0) > 0 && (
+              <ul className="text-sm text-danger-600 list-disc list-inside">
+                {errorsById.get(selected.id)!.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            {/* Preview against the loaded line items */}
+            {preview && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <h4 className="text-sm font-medium text-gray-900">
+                  Preview: {preview.matched.length} matching line items
+                  {' • '}{SERVICE_COUNT_MODES.find(mode => mode.value === selected.countMode)?.label.toLowerCase()}: {preview.total}
+                </h4>
+                {preview.matched.length === 0 ? (
+                  <p className="mt-2 text-sm text-gray-500">No line items in the loaded data match this rule.</p>
+                ) : (
+                  <div className="mt-2 max-h-64 overflow-y-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="pr-4 py-1 font-medium">Date</th>
+                          <th className="pr-4 py-1 font-medium">Job</th>
+                          <th className="pr-4 py-1 font-medium">Technician</th>
+                          <th className="pr-4 py-1 font-medium">Category</th>
+                          <th className="pr-4 py-1 font-medium">Line Item</th>
+                          <th className="py-1 font-medium text-right">Qty</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-700">
+                        {preview.matched.slice(0, MAX_PREVIEW_ROWS).map((item, index) => (
+                          <tr key={`${item.source.file}:${item.source.row}:${index}`}>
+                            <td className="pr-4 py-1 whitespace-nowrap">{item.invoiceDate ? formatDate(item.invoiceDate) : '—'}</td>
+                            <td className="pr-4 py-1">{item.jobId}</td>
+                            <td className="pr-4 py-1">{item.technician}</td>
+                            <td className="pr-4 py-1">{item.category}</td>
+                            <td className="pr-4 py-1">{item.lineItem}</td>
+                            <td className="py-1 text-right">{item.quantity}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {preview.matched.length > MAX_PREVIEW_ROWS && (
+                      <p className="mt-2 text-xs text-gray-500">
+                        Showing the first {MAX_PREVIEW_ROWS} of {preview.matched.length} matches.
+                      </p>
+                    )}
+                  </div>
+                )}
+                {preview.excluded.length > 0 && (
+                  <p className="mt-3 text-xs text-gray-500" title={preview.excluded.map(item => item.lineItem).join('\n')}>
+                    {preview.excluded.length} line items were left out by the exclude keywords.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        {hasErrors && (
+          <span className="text-sm text-danger-600">Fix the highlighted categories before saving</span>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={hasErrors}
+          className="btn-primary inline-flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save &amp; Recalculate</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import { useState } from 'react';
+import { Plus, Save, Target, Trash2, X } from 'lucide-react';
+import type { KPIDefinition, KPITargetSet, KPIThresholds, TargetScope } from '../types';
+import { formatKPILabel } from '../services/kpiRegistry';
+import {
+  TARGET_SCOPES,
+  createTargetSet,
+  getRoleNames,
+  saveRoles,
+  saveTargetSets,
+  validateTargetSet
+} from '../services/targets';
+import { formatDate, parseDate } from '../utils/dateHelpers';
+import { formatKPIValue } from '../utils/formatters';
+
+interface TargetEditorProps {
+  registry: KPIDefinition[];
+  technicians: string[];
+  roles: Record<string, string>;
+  targetSets: KPITargetSet[];
+  onSave: (roles: Record<string, string>, targetSets: KPITargetSet[]) => void;
+  onClose: () => void;
+}
+
+// Thresholds are edited as text so a KPI can be left blank to keep the default
+type ThresholdDraft = { good: string; warning: string };
+type TargetSetDraft = Omit<KPITargetSet, 'thresholds'> & { thresholds: Record<string, ThresholdDraft> };
+
+const ROLE_LIST_ID = 'target-editor-roles';
+
+function toDraft(targetSet: KPITargetSet): TargetSetDraft {
+  return {
+    ...targetSet,
+    thresholds: Object.fromEntries(Object.entries(targetSet.thresholds).map(([kpiId, thresholds]) => [
+      kpiId,
+      { good: String(thresholds.good), warning: String(thresholds.warning) }
+    ]))
+  };
+}
+
+/**
+ * Convert a draft back; a KPI needs both thresholds filled in to be overridden
+ */
+function fromDraft(draft: TargetSetDraft): { targetSet: KPITargetSet; incomplete: boolean } {
+  const thresholds: Record<string, KPIThresholds> = {};
+  let incomplete = false;
+
+  Object.entries(draft.thresholds).forEach(([kpiId, { good, warning }]) => {
+    if (!good.trim() && !warning.trim()) return;
+    if (!good.trim() || !warning.trim() || isNaN(Number(good)) || isNaN(Number(warning))) {
+      incomplete = true;
+      return;
+    }
+    thresholds[kpiId] = { good: Number(good), warning: Number(warning) };
+  });
+
+  return {
+    targetSet: { ...draft, name: draft.name.trim(), assignee: draft.assignee.trim(), thresholds },
+    incomplete
+  };
+}
+
+const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export function TargetEditor({ registry, technicians, roles, targetSets, onSave, onClose }: TargetEditorProps) {
+  const [drafts, setDrafts] = useState<TargetSetDraft[]>(() => targetSets.map(toDraft));
+  const [roleDrafts, setRoleDrafts] = useState<Record<string, string>>(roles);
+  const [selectedId, setSelectedId] = useState<string | null>(targetSets[0]?.id ?? null);
+
+  const selected = drafts.find(draft => draft.id === selectedId) ?? null;
+  const converted = drafts.map(fromDraft);
+  const allTargetSets = converted.map(({ targetSet }) => targetSet);
+  const errorsById = new Map(converted.map(({ targetSet, incomplete }) => [
+    targetSet.id,
+    [
+      ...validateTargetSet(targetSet, allTargetSets),
+      ...(incomplete ? ['Fill in both thresholds of a KPI, or neither to keep the default'] : [])
+    ]
+  ]));
+  const hasErrors = Array.from(errorsById.values()).some(errors => errors.length > 0);
+
+  const roleNames = getRoleNames(roleDrafts);
+  // Saved technicians without records in the loaded data keep their role
+  const allTechnicians = Array.from(new Set([...technicians, ...Object.keys(roleDrafts)])).sort();
+
+  const updateSelected = (changes: Partial<TargetSetDraft>) => {
+    setDrafts(prev => prev.map(draft => draft.id === selectedId ? { ...draft, ...changes } : draft));
+  };
+
+  const updateThreshold = (kpiId: string, changes: Partial<ThresholdDraft>) => {
+    if (!selected) return;
+    const current = selected.thresholds[kpiId] ?? { good: '', warning: '' };
+    updateSelected({ thresholds: { ...selected.thresholds, [kpiId]: { ...current, ...changes } } });
+  };
+
+  const handleAdd = () => {
+    const draft = toDraft(createTargetSet());
+    setDrafts(prev => [...prev, draft]);
+    setSelectedId(draft.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const remaining = drafts.filter(draft => draft.id !== id);
+    setDrafts(remaining);
+    if (id === selectedId) setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    const updatedRoles = Object.fromEntries(
+      Object.entries(roleDrafts).map(([technician, role]) => [technician, role.trim()]).filter(([, role]) => role)
+    );
+    saveRoles(updatedRoles);
+    saveTargetSets(allTargetSets);
+    onSave(updatedRoles, allTargetSets);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <Target className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">KPI Targets</h3>
+            <p className="text-sm text-gray-500">
+              Good and warning thresholds per role or technician, from an effective date. Totals are weekly and scale with the period
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label="Close targets"
+        >
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <datalist id={ROLE_LIST_ID}>
+        {roleNames.map(role => (
+          <option key={role} value={role} />
+        ))}
+      </datalist>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Roles and target set list */}
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Roles</h4>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {allTechnicians.map(technician => (
+                <label key={technician} className="flex items-center justify-between space-x-2 text-sm">
+                  <span className="text-gray-700 truncate">{technician}</span>
+                  <input
+                    value={roleDrafts[technician] ?? ''}
+                    onChange={(e) => setRoleDrafts(prev => ({ ...prev, [technician]: e.target.value }))}
+                    list={ROLE_LIST_ID}
+                    placeholder="No role"
+                    className={`${inputClass} w-32`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Target Sets</h4>
+            {drafts.length > 0 && (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {drafts.map(draft => (
+                  <li key={draft.id} className="flex items-center justify-between">
+                    <button
+                      onClick={() => setSelectedId(draft.id)}
+                      className={`flex-1 px-3 py-2 text-left text-sm ${draft.id === selectedId ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      {draft.name.trim() || 'Untitled targets'}
+                      <span className="block text-xs text-gray-500">
+                        {draft.assignee || 'Unassigned'}
+                        {parseDate(draft.effectiveFrom) && ` • from ${formatDate(parseDate(draft.effectiveFrom)!)}`}
+                      </span>
+                      {(errorsById.get(draft.id)?.length ?? 0) > 0 && (
+                        <span className="text-xs text-danger-600">needs fixing</span>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(draft.id)}
+                      className="p-2 text-red-500 hover:text-red-700"
+                      aria-label={`Delete ${draft.name || 'target set'}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button onClick={handleAdd} className="mt-3 btn-secondary inline-flex items-center space-x-2 text-sm">
+              <Plus className="w-4 h-4" />
+              <span>Add Target Set</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Selected target set */}
+        {selected ? (
+          <div className="lg:col-span-3 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Name</span>
+                <input value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Effective from</span>
+                <input
+                  type="date"
+                  value={selected.effectiveFrom}
+                  onChange={(e) => updateSelected({ effectiveFrom: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">Applies to</span>
+                <select
+                  value={selected.scope}
+                  onChange={(e) => updateSelected({ scope: e.target.value as TargetScope, assignee: '' })}
+                  className={inputClass}
+                >
+                  {TARGET_SCOPES.map(scope => (
+                    <option key={scope.value} value={scope.value}>{scope.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="font-medium text-gray-700">{selected.scope === 'role' ? 'Role' : 'Technician'}</span>
+                {selected.scope === 'role' ? (
+                  <input
+                    value={selected.assignee}
+                    onChange={(e) => updateSelected({ assignee: e.target.value })}
+                    list={ROLE_LIST_ID}
+                    className={inputClass}
+                  />
+                ) : (
+                  <select
+                    value={selected.assignee}
+                    onChange={(e) => updateSelected({ assignee: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a technician</option>
+                    {allTechnicians.map(technician => (
+                      <option key={technician} value={technician}>{technician}</option>
+                    ))}
+                  </select>
+                )}
+              </label>
+            </div>
+
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="pr-4 py-2 font-medium">KPI</th>
+                  <th className="pr-4 py-2 font-medium">Good at</th>
+                  <th className="pr-4 py-2 font-medium">Warning at</th>
+                  <th className="py-2 font-medium">Default</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 divide-y divide-gray-100">
+                {registry.map(kpi => {
+                  const draft = selected.thresholds[kpi.id] ?? { good: '', warning: '' };
+                  return (
+                    <tr key={kpi.id}>
+                      <td className="pr-4 py-2">{formatKPILabel(kpi, 'week')}</td>
+                      <td className="pr-4 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={draft.good}
+                          placeholder={String(kpi.thresholds.good)}
+                          onChange={(e) => updateThreshold(kpi.id, { good: e.target.value })}
+                          className={`${inputClass} w-28`}
+                          aria-label={`Good threshold of ${kpi.label}`}
+                        />
+                      </td>
+                      <td className="pr-4 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={draft.warning}
+                          placeholder={String(kpi.thresholds.warning)}
+                          onChange={(e) => updateThreshold(kpi.id, { warning: e.target.value })}
+                          className={`${inputClass} w-28`}
+                          aria-label={`Warning threshold of ${kpi.label}`}
+                        />
+                      </td>
+                      <td className="py-2 text-xs text-gray-500 whitespace-nowrap">
+                        {formatKPIValue(kpi.thresholds.good, kpi.unit)} / {formatKPIValue(kpi.thresholds.warning, kpi.unit)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {(errorsById.get(selected.id)?.length ?? 0) > 0 && (
+              <ul className="text-sm text-danger-600 list-disc list-inside">
+                {errorsById.get(selected.id)!.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <p className="lg:col-span-3 text-sm text-gray-500">
+            No target sets yet. Every technician is measured against the default thresholds.
+          </p>
+        )}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Leave a KPI blank to keep the next most specific targets. A technician's own targets win over their role's, which win over the defaults;
+        the set in effect on the last day of the selected period applies.
+      </p>
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        {hasErrors && (
+          <span className="text-sm text-danger-600">Fix the highlighted target sets before saving</span>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={hasErrors}
+          className="btn-primary inline-flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Targets</span>
+        </button>
+      </div>
+    </div>
+  );
+}
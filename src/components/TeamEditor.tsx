@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2, Users, X } from 'lucide-react';
+import type { Team } from '../types';
+import {
+  UNASSIGNED_TEAM_NAME,
+  assignTechnician,
+  createTeam,
+  getTechnicianTeam,
+  saveTeams,
+  validateTeams
+} from '../services/teams';
+
+interface TeamEditorProps {
+  teams: Team[];
+  technicians: string[];
+  onSave: (teams: Team[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export function TeamEditor({ teams, technicians, onSave, onClose }: TeamEditorProps) {
+  const [drafts, setDrafts] = useState<Team[]>(teams);
+
+  const errors = validateTeams(drafts);
+  // Saved members without records in the loaded data keep their team
+  const allTechnicians = Array.from(new Set([...technicians, ...drafts.flatMap(team => team.members)])).sort();
+
+  const handleAdd = () => {
+    setDrafts(prev => [...prev, createTeam(`Team ${prev.length + 1}`)]);
+  };
+
+  const handleRename = (id: string, name: string) => {
+    setDrafts(prev => prev.map(team => team.id === id ? { ...team, name } : team));
+  };
+
+  const handleDelete = (id: string) => {
+    setDrafts(prev => prev.filter(team => team.id !== id));
+  };
+
+  const handleSave = () => {
+    const updated = drafts.map(team => ({ ...team, name: team.name.trim() }));
+    saveTeams(updated);
+    onSave(updated);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <Users className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Teams</h3>
+            <p className="text-sm text-gray-500">Group technicians for the team rollups in the scorecard</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          aria-label="Close teams"
+        >
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Team list */}
+        <div>
+          {drafts.length === 0 ? (
+            <p className="text-sm text-gray-500">No teams yet. The scorecard shows the company total only.</p>
+          ) : (
+            <ul className="space-y-2">
+              {drafts.map(team => (
+                <li key={team.id} className="flex items-center space-x-2">
+                  <input
+                    value={team.name}
+                    onChange={(e) => handleRename(team.id, e.target.value)}
+                    className={`${inputClass} flex-1`}
+                    aria-label="Team name"
+                  />
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{team.members.length} techs</span>
+                  <button
+                    onClick={() => handleDelete(team.id)}
+                    className="p-2 text-red-500 hover:text-red-700"
+                    aria-label={`Delete ${team.name || 'team'}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button onClick={handleAdd} className="mt-3 btn-secondary inline-flex items-center space-x-2 text-sm">
+            <Plus className="w-4 h-4" />
+            <span>Add Team</span>
+          </button>
+        </div>
+
+        {/* Technician assignments */}
+        <div className="lg:col-span-2 max-h-80 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pr-4 py-1 font-medium">Technician</th>
+                <th className="py-1 font-medium">Team</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-700">
+              {allTechnicians.map(technician => (
+                <tr key={technician}>
+                  <td className="pr-4 py-1">{technician}</td>
+                  <td className="py-1">
+                    <select
+                      value={getTechnicianTeam(drafts, technician)?.id ?? ''}
+                      onChange={(e) => setDrafts(prev => assignTechnician(prev, technician, e.target.value || null))}
+                      className={inputClass}
+                      aria-label={`Team for ${technician}`}
+                    >
+                      <option value="">{UNASSIGNED_TEAM_NAME}</option>
+                      {drafts.map(team => (
+                        <option key={team.id} value={team.id}>{team.name.trim() || 'Untitled team'}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        {errors.length > 0 && (
+          <span className="text-sm text-danger-600">{errors.join('. ')}</span>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={errors.length > 0}
+          className="btn-primary inline-flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Teams</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,53 +1,80 @@
 import { useState } from 'react';
-import { ChevronDown, ChevronUp, User } from 'lucide-react';
-import type { TechnicianKPIs } from '../types';
-import {
-  AverageTicketValueMetric,
-  JobCloseRateMetric,
-  WeeklyRevenueMetric,
-  JobEfficiencyMetric,
-  MembershipWinRateMetric,
-  HydroJettingJobsMetric,
-  DescalingJobsMetric,
-  WaterHeaterJobsMetric
-} from './KPIMetric';
+import { ChevronDown, ChevronUp, TrendingUp, User } from 'lucide-react';
+import type { KPIDefinition, KPIThresholds, PerformanceScore, PeriodType, TechnicianKPIs } from '../types';
+import { KPIMetric } from './KPIMetric';
+import { formatKPILabel, getKPIConfidenceInterval, hasKPIData, isLowSampleKPI } from '../services/kpiRegistry';
+import { formatKPIValue, getKPIColor } from '../utils/formatters';
+import type { KPIProjection } from '../services/pacing';
 
 interface TechnicianCardProps {
   technician: TechnicianKPIs;
+  registry: KPIDefinition[];
+  score: PerformanceScore;
+  thresholds: Record<string, KPIThresholds>; // the technician's effective targets, KPI id -> thresholds
+  periodType: PeriodType;
+  showLastYear: boolean;
+  projections?: Record<string, KPIProjection>; // set while pacing a period in progress
+  onShowTrends?: () => void;
+  onDrillDown?: (kpi: KPIDefinition) => void;
 }
 
-export function TechnicianCard({ technician }: TechnicianCardProps) {
+const INSIGHT_LABELS = {
+  success: 'Excellent',
+  warning: 'Good',
+  danger: 'Needs Improvement',
+  neutral: 'No Activity',
+  lowSample: 'Too Few Records'
+};
+
+const INSIGHT_CLASSES = {
+  success: 'text-success-600',
+  warning: 'text-warning-600',
+  danger: 'text-danger-600',
+  neutral: 'text-gray-500'
+};
+
+export function TechnicianCard({
+  technician,
+  registry,
+  score,
+  thresholds,
+  periodType,
+  showLastYear,
+  projections,
+  onShowTrends,
+  onDrillDown
+}: TechnicianCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showScoreBreakdown, setShowScoreBreakdown] = useState(false);
 
   const toggleExpanded = () => {
     setIsExpanded(!isExpanded);
   };
 
-  // Calculate overall performance score (simple average of normalized scores)
-  const calculatePerformanceScore = () => {
-    const metrics = [
-      technician.averageTicketValue,
-      technician.jobCloseRate,
-      technician.weeklyRevenue,
-      technician.jobEfficiency,
-      technician.membershipWinRate,
-      technician.hydroJettingJobsSold,
-      technician.descalingJobsSold,
-      technician.waterHeaterJobsSold
-    ];
-
-    // Normalize each metric to 0-100 scale (this is a simplified approach)
-    const normalizedScores = metrics.map((value, index) => {
-      // Define reasonable max values for normalization
-      const maxValues = [2000, 100, 10000, 100, 100, 10, 5, 5];
-      return Math.min((value / maxValues[index]) * 100, 100);
-    });
+  const performanceScore = score.score;
 
-    const averageScore = normalizedScores.reduce((sum, score) => sum + score, 0) / normalizedScores.length;
-    return Math.round(averageScore);
+  const renderMetric = (kpi: KPIDefinition) => {
+    const sample = technician.samples[kpi.id];
+    return (
+      <KPIMetric
+        key={kpi.id}
+        name={formatKPILabel(kpi, periodType)}
+        value={technician.kpis[kpi.id] ?? 0}
+        unit={kpi.unit}
+        description={kpi.description}
+        thresholds={thresholds[kpi.id] ?? kpi.thresholds}
+        comparison={technician.comparisons?.[kpi.id]}
+        showLastYear={showLastYear}
+        projection={projections?.[kpi.id]}
+        sample={kpi.rate ? sample : undefined}
+        noData={!hasKPIData(kpi, sample)}
+        lowSample={isLowSampleKPI(kpi, sample)}
+        confidenceInterval={getKPIConfidenceInterval(kpi, sample)}
+        onClick={onDrillDown && (() => onDrillDown(kpi))}
+      />
+    );
   };
 
-  const performanceScore = calculatePerformanceScore();
   const getPerformanceColor = (score: number) => {
     if (score >= 80) return 'text-success-600 bg-success-100';
     if (score >= 60) return 'text-warning-600 bg-warning-100';
@@ -68,31 +95,82 @@ export function TechnicianCard({ technician }: TechnicianCardProps) {
             </h3>
             <div className="flex items-center space-x-2">
               <span className="text-sm text-gray-500">Performance Score:</span>
-              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPerformanceColor(performanceScore)}`}>
+              <button
+                onClick={() => setShowScoreBreakdown(!showScoreBreakdown)}
+                className={`px-2 py-1 rounded-full text-xs font-medium ${getPerformanceColor(performanceScore)}`}
+                title="Show how the score is made up"
+              >
                 {performanceScore}/100
-              </span>
+              </button>
             </div>
           </div>
         </div>
         
-        <button
-          onClick={toggleExpanded}
-          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
-          aria-label={isExpanded ? 'Collapse' : 'Expand'}
-        >
-          {isExpanded ? (
-            <ChevronUp className="w-5 h-5 text-gray-600" />
-          ) : (
-            <ChevronDown className="w-5 h-5 text-gray-600" />
+        <div className="flex items-center space-x-1">
+          {onShowTrends && (
+            <button
+              onClick={onShowTrends}
+              className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+              aria-label="Show trends"
+              title="Show week-by-week trends"
+            >
+              <TrendingUp className="w-5 h-5 text-gray-600" />
+            </button>
           )}
-        </button>
+          <button
+            onClick={toggleExpanded}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? (
+              <ChevronUp className="w-5 h-5 text-gray-600" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-600" />
+            )}
+          </button>
+        </div>
       </div>
 
+      {/* Score breakdown: points each KPI contributed */}
+      {showScoreBreakdown && (
+        <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+          <h5 className="text-sm font-medium text-gray-900 mb-2">Score Breakdown</h5>
+          {score.contributions.length === 0 ? (
+            <p className="text-sm text-gray-500">No KPI with a weight above zero has enough data to score.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pr-4 py-1 font-medium">KPI</th>
+                  <th className="pr-4 py-1 font-medium text-right">Value</th>
+                  <th className="pr-4 py-1 font-medium text-right">Normalized</th>
+                  <th className="pr-4 py-1 font-medium text-right">Weight</th>
+                  <th className="py-1 font-medium text-right">Points</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700">
+                {score.contributions.map(contribution => {
+                  const kpi = registry.find(definition => definition.id === contribution.kpiId);
+                  if (!kpi) return null;
+                  return (
+                    <tr key={contribution.kpiId}>
+                      <td className="pr-4 py-1">{formatKPILabel(kpi, periodType)}</td>
+                      <td className="pr-4 py-1 text-right">{formatKPIValue(contribution.value, kpi.unit)}</td>
+                      <td className="pr-4 py-1 text-right">{Math.round(contribution.normalized * 100)}%</td>
+                      <td className="pr-4 py-1 text-right">{contribution.weight}</td>
+                      <td className="py-1 text-right font-medium">{contribution.points.toFixed(1)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       {/* Summary Metrics (always visible) */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-        <WeeklyRevenueMetric value={technician.weeklyRevenue} />
-        <JobCloseRateMetric value={technician.jobCloseRate} />
-        <JobEfficiencyMetric value={technician.jobEfficiency} />
+        {registry.filter(kpi => kpi.summary).map(kpi => renderMetric(kpi))}
       </div>
 
       {/* Expanded Details */}
@@ -101,41 +179,27 @@ export function TechnicianCard({ technician }: TechnicianCardProps) {
           <h4 className="text-md font-semibold text-gray-900 mb-4">Detailed KPIs</h4>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <AverageTicketValueMetric value={technician.averageTicketValue} />
-            <MembershipWinRateMetric value={technician.membershipWinRate} />
-            <HydroJettingJobsMetric value={technician.hydroJettingJobsSold} />
-            <DescalingJobsMetric value={technician.descalingJobsSold} />
-            <WaterHeaterJobsMetric value={technician.waterHeaterJobsSold} />
+            {registry.filter(kpi => !kpi.summary).map(kpi => renderMetric(kpi))}
           </div>
 
           {/* Additional Details */}
           <div className="mt-6 p-4 bg-gray-50 rounded-lg">
             <h5 className="text-sm font-medium text-gray-900 mb-2">Performance Insights</h5>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
-              <div>
-                <span className="font-medium">Revenue Performance:</span>
-                <span className={`ml-2 ${technician.weeklyRevenue >= 5000 ? 'text-success-600' : technician.weeklyRevenue >= 2500 ? 'text-warning-600' : 'text-danger-600'}`}>
-                  {technician.weeklyRevenue >= 5000 ? 'Excellent' : technician.weeklyRevenue >= 2500 ? 'Good' : 'Needs Improvement'}
-                </span>
-              </div>
-              <div>
-                <span className="font-medium">Close Rate:</span>
-                <span className={`ml-2 ${technician.jobCloseRate >= 80 ? 'text-success-600' : technician.jobCloseRate >= 60 ? 'text-warning-600' : 'text-danger-600'}`}>
-                  {technician.jobCloseRate >= 80 ? 'Excellent' : technician.jobCloseRate >= 60 ? 'Good' : 'Needs Improvement'}
-                </span>
-              </div>
-              <div>
-                <span className="font-medium">Efficiency:</span>
-                <span className={`ml-2 ${technician.jobEfficiency >= 75 ? 'text-success-600' : technician.jobEfficiency >= 50 ? 'text-warning-600' : 'text-danger-600'}`}>
-                  {technician.jobEfficiency >= 75 ? 'Excellent' : technician.jobEfficiency >= 50 ? 'Good' : 'Needs Improvement'}
-                </span>
-              </div>
-              <div>
-                <span className="font-medium">Membership Sales:</span>
-                <span className={`ml-2 ${technician.membershipWinRate >= 50 ? 'text-success-600' : technician.membershipWinRate >= 25 ? 'text-warning-600' : 'text-danger-600'}`}>
-                  {technician.membershipWinRate >= 50 ? 'Excellent' : technician.membershipWinRate >= 25 ? 'Good' : 'Needs Improvement'}
-                </span>
-              </div>
+              {registry.map(kpi => {
+                const sample = technician.samples[kpi.id];
+                const judged = hasKPIData(kpi, sample) && !isLowSampleKPI(kpi, sample);
+                const value = projections?.[kpi.id]?.projected ?? technician.kpis[kpi.id] ?? 0;
+                const color = getKPIColor(judged ? value : null, thresholds[kpi.id] ?? kpi.thresholds);
+                return (
+                  <div key={kpi.id}>
+                    <span className="font-medium">{formatKPILabel(kpi, periodType)}:</span>
+                    <span className={`ml-2 ${INSIGHT_CLASSES[color]}`}>
+                      {hasKPIData(kpi, sample) && !judged ? INSIGHT_LABELS.lowSample : INSIGHT_LABELS[color]}
+                    </span>
+                  </div>
+                );
+              })}
             </div>
           </div>
         </div>
@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react';
+import type {
+  KPIDefinition,
+  KPIThresholds,
+  PerformanceScore,
+  ReportType,
+  ReportingPeriod,
+  Team,
+  TechnicianKPIs
+} from '../types';
+import type { IntegratedData } from '../services/dataIntegrator';
+import type { KPIProjection } from '../services/pacing';
+import { formatKPILabel, hasKPIData, isLowSampleKPI } from '../services/kpiRegistry';
+import { calculateRollups } from '../services/rollupCalculator';
+import { COMPANY_GROUP_NAME, UNASSIGNED_TEAM_NAME, getTechnicianTeam } from '../services/teams';
+import { getRoleNames } from '../services/targets';
+import { loadHiddenTableColumns, saveHiddenTableColumns } from '../services/settings';
+import { formatKPIValue, getKPIColor } from '../utils/formatters';
+
+interface TechnicianTableProps {
+  data: IntegratedData;
+  technicians: TechnicianKPIs[];
+  registry: KPIDefinition[];
+  scores: Map<string, PerformanceScore>;
+  thresholds: Map<string, Record<string, KPIThresholds>>; // technician -> effective targets
+  projections: Map<string, Record<string, KPIProjection>> | null; // set while pacing a period in progress
+  period: ReportingPeriod;
+  teams: Team[];
+  roles: Record<string, string>;
+  revenuePrecedence: ReportType[];
+  onDrillDown: (technician: string, kpi: KPIDefinition) => void;
+}
+
+// 'technician', 'score' or a KPI id
+type ColumnKey = string;
+
+interface SortSpec {
+  key: ColumnKey;
+  ascending: boolean;
+}
+
+const UNASSIGNED_FILTER = 'unassigned';
+
+const CELL_CLASSES = {
+  success: 'bg-success-50 text-success-700',
+  warning: 'bg-warning-50 text-warning-700',
+  danger: 'bg-danger-50 text-danger-700',
+  neutral: 'text-gray-500'
+};
+
+/**
+ * Order two sort values; missing values go last whichever the direction
+ */
+function compareValues(a: number | string | null, b: number | string | null, ascending: boolean): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const order = a < b ? -1 : 1;
+  return ascending ? order : -order;
+}
+
+export function TechnicianTable({
+  data,
+  technicians,
+  registry,
+  scores,
+  thresholds,
+  projections,
+  period,
+  teams,
+  roles,
+  revenuePrecedence,
+  onDrillDown
+}: TechnicianTableProps) {
+  const [sorts, setSorts] = useState<SortSpec[]>([{ key: 'score', ascending: false }]);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(loadHiddenTableColumns);
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
+  // '' for everyone, 'team:<id>', 'team:unassigned' or 'role:<name>'
+  const [filter, setFilter] = useState('');
+
+  const roleNames = getRoleNames(roles);
+  const visibleKPIs = registry.filter(kpi => !hiddenColumns.includes(kpi.id));
+  const showScore = !hiddenColumns.includes('score');
+
+  const getValue = (technician: TechnicianKPIs, key: ColumnKey): number | string | null => {
+    if (key === 'technician') return technician.technician.toLowerCase();
+    if (key === 'score') return scores.get(technician.technician)?.score ?? 0;
+
+    const kpi = registry.find(definition => definition.id === key);
+    return kpi && hasKPIData(kpi, technician.samples[key]) ? technician.kpis[key] ?? 0 : null;
+  };
+
+  const filtered = useMemo(() => technicians.filter(technician => {
+    if (!filter) return true;
+    if (filter.startsWith('role:')) return roles[technician.technician] === filter.slice('role:'.length);
+
+    const teamId = filter.slice('team:'.length);
+    const team = getTechnicianTeam(teams, technician.technician);
+    return teamId === UNASSIGNED_FILTER ? team === null : team?.id === teamId;
+  }), [technicians, filter, roles, teams]);
+
+  const sorted = [...filtered].sort((a, b) => {
+    for (const sort of sorts) {
+      const order = compareValues(getValue(a, sort.key), getValue(b, sort.key), sort.ascending);
+      if (order !== 0) return order;
+    }
+    return a.technician.localeCompare(b.technician);
+  });
+
+  // Rank by the first sort column; ties share a rank and missing values have none
+  const ranks: (number | null)[] = [];
+  sorted.forEach((technician, index) => {
+    const value = getValue(technician, sorts[0].key);
+    if (value === null) {
+      ranks.push(null);
+    } else {
+      ranks.push(index > 0 && getValue(sorted[index - 1], sorts[0].key) === value ? ranks[index - 1] : index + 1);
+    }
+  });
+
+  // Pooled totals of the technicians shown, split by team unless already filtered to one
+  const filterIsTeam = filter.startsWith('team:');
+  const footerRollups = useMemo(
+    () => calculateRollups(
+      data,
+      filtered.map(technician => technician.technician),
+      filterIsTeam ? [] : teams,
+      period,
+      registry,
+      revenuePrecedence
+    ),
+    [data, filtered, filterIsTeam, teams, period, registry, revenuePrecedence]
+  );
+
+  const filterLabel = (() => {
+    if (!filter) return null;
+    if (filter.startsWith('role:')) return filter.slice('role:'.length);
+    const id = filter.slice('team:'.length);
+    return id === UNASSIGNED_FILTER ? UNASSIGNED_TEAM_NAME : teams.find(team => team.id === id)?.name ?? null;
+  })();
+
+  // Click sorts by a column alone; shift-click adds it as a further sort
+  const handleSort = (key: ColumnKey, addToSort: boolean) => {
+    const defaultAscending = key === 'technician';
+    setSorts(prev => {
+      const existing = prev.find(sort => sort.key === key);
+      if (addToSort) {
+        return existing
+          ? prev.map(sort => sort.key === key ? { ...sort, ascending: !sort.ascending } : sort)
+          : [...prev, { key, ascending: defaultAscending }];
+      }
+      return [{ key, ascending: existing && prev.length === 1 ? !existing.ascending : defaultAscending }];
+    });
+  };
+
+  const toggleColumn = (key: ColumnKey) => {
+    const updated = hiddenColumns.includes(key)
+      ? hiddenColumns.filter(column => column !== key)
+      : [...hiddenColumns, key];
+    saveHiddenTableColumns(updated);
+    setHiddenColumns(updated);
+  };
+
+  const renderHeader = (key: ColumnKey, label: string, title?: string, alignRight = true) => {
+    const position = sorts.findIndex(sort => sort.key === key);
+    const sort = sorts[position];
+    return (
+      <th
+        key={key}
+        className={`sticky top-0 z-10 bg-white pr-4 py-2 font-medium whitespace-nowrap ${alignRight ? 'text-right' : 'text-left'}`}
+        title={title}
+      >
+        <button
+          onClick={(e) => handleSort(key, e.shiftKey)}
+          className="inline-flex items-center space-x-1 hover:text-gray-900"
+        >
+          <span>{label}</span>
+          {sort && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+          {sort && sorts.length > 1 && <span className="text-xs text-gray-400">{position + 1}</span>}
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            aria-label="Filter technicians"
+          >
+            <option value="">All technicians</option>
+            {teams.length > 0 && (
+              <optgroup label="Team">
+                {teams.map(team => (
+                  <option key={team.id} value={`team:${team.id}`}>{team.name}</option>
+                ))}
+                <option value={`team:${UNASSIGNED_FILTER}`}>{UNASSIGNED_TEAM_NAME}</option>
+              </optgroup>
+            )}
+            {roleNames.length > 0 && (
+              <optgroup label="Role">
+                {roleNames.map(role => (
+                  <option key={role} value={`role:${role}`}>{role}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <span className="text-gray-500">
+            {filtered.length} of {technicians.length} technicians • shift-click a heading to add it as a further sort
+          </span>
+        </div>
+
+        <div className="relative">
+          <button
+            onClick={() => setShowColumnPicker(!showColumnPicker)}
+            className="btn-secondary inline-flex items-center space-x-2 text-sm"
+          >
+            <Columns3 className="w-4 h-4" />
+            <span>Columns</span>
+          </button>
+          {showColumnPicker && (
+            <div className="absolute right-0 z-20 mt-2 w-64 max-h-80 overflow-y-auto p-3 bg-white border border-gray-200 rounded-lg shadow-lg space-y-1">
+              {[{ key: 'score', label: 'Performance Score' }, ...registry.map(kpi => ({ key: kpi.id, label: formatKPILabel(kpi, period.type) }))]
+                .map(column => (
+                  <label key={column.key} className="flex items-center space-x-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!hiddenColumns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>{column.label}</span>
+                  </label>
+                ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-[70vh]">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-200">
+              <th className="sticky top-0 z-10 bg-white pr-4 py-2 font-medium text-right">#</th>
+              {renderHeader('technician', 'Technician', undefined, false)}
+              {showScore && renderHeader('score', 'Score', 'Performance score')}
+              {visibleKPIs.map(kpi => renderHeader(kpi.id, formatKPILabel(kpi, period.type), kpi.description))}
+            </tr>
+          </thead>
+          <tbody className="text-gray-700 divide-y divide-gray-100">
+            {sorted.map((technician, index) => {
+              const team = getTechnicianTeam(teams, technician.technician);
+              const role = roles[technician.technician];
+              const score = scores.get(technician.technician)?.score ?? 0;
+              return (
+                <tr key={technician.technician} className="hover:bg-gray-50">
+                  <td className="pr-4 py-2 text-right text-gray-500">{ranks[index] ?? '—'}</td>
+                  <td className="pr-4 py-2 whitespace-nowrap">
+                    <div className="font-medium text-gray-900">{technician.technician}</div>
+                    {(team || role) && (
+                      <div className="text-xs text-gray-500">{[team?.name, role].filter(Boolean).join(' • ')}</div>
+                    )}
+                  </td>
+                  {showScore && (
+                    <td className={`pr-4 py-2 text-right font-medium ${CELL_CLASSES[getKPIColor(score, { good: 80, warning: 60 })]}`}>
+                      {score}
+                    </td>
+                  )}
+                  {visibleKPIs.map(kpi => {
+                    const sample = technician.samples[kpi.id];
+                    const noData = !hasKPIData(kpi, sample);
+                    const judged = !noData && !isLowSampleKPI(kpi, sample);
+                    const value = technician.kpis[kpi.id] ?? 0;
+                    const colorValue = projections?.get(technician.technician)?.[kpi.id]?.projected ?? value;
+                    const color = getKPIColor(judged ? colorValue : null, thresholds.get(technician.technician)?.[kpi.id] ?? kpi.thresholds);
+                    return (
+                      <td
+                        key={kpi.id}
+                        onClick={() => onDrillDown(technician.technician, kpi)}
+                        className={`pr-4 py-2 text-right whitespace-nowrap cursor-pointer hover:underline ${CELL_CLASSES[color]}`}
+                        title={kpi.rate && sample ? `n = ${sample.sampleSize}` : undefined}
+                      >
+                        {noData ? 'N/A' : formatKPIValue(value, kpi.unit)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+          {filtered.length > 0 && (
+            <tfoot className="sticky bottom-0 bg-gray-50 text-gray-900 border-t border-gray-200">
+              {footerRollups.map((rollup, index) => (
+                <tr key={rollup.group} className={index === 0 ? 'font-semibold' : ''}>
+                  <td className="pr-4 py-2"></td>
+                  <td className="pr-4 py-2 whitespace-nowrap" title={rollup.members.join(', ')}>
+                    {index === 0 ? `${filterLabel ?? COMPANY_GROUP_NAME} total` : rollup.group}
+                    <span className="ml-1 text-xs font-normal text-gray-500">({rollup.members.length})</span>
+                  </td>
+                  {showScore && <td className="pr-4 py-2"></td>}
+                  {visibleKPIs.map(kpi => (
+                    <td key={kpi.id} className="pr-4 py-2 text-right whitespace-nowrap">
+                      {hasKPIData(kpi, rollup.samples[kpi.id]) ? formatKPIValue(rollup.kpis[kpi.id] ?? 0, kpi.unit) : 'N/A'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tfoot>
+          )}
+        </table>
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        Totals are calculated from the pooled records of the technicians shown. Click a value to see the records behind it.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import { TrendingUp, X } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine
+} from 'recharts';
+import type { KPIDefinition, ReportType, ReportingPeriod } from '../types';
+import type { IntegratedData } from '../services/dataIntegrator';
+import { formatKPILabel } from '../services/kpiRegistry';
+import { calculateWeeklyKPIs, getTechnicianTrend, type WeeklyKPISnapshot } from '../services/trendAnalyzer';
+import { formatKPIValue } from '../utils/formatters';
+import { formatShortDate, getWeekLabel } from '../utils/dateHelpers';
+
+interface TrendPanelProps {
+  data: IntegratedData;
+  technician: string;
+  registry: KPIDefinition[];
+  revenuePrecedence: ReportType[];
+  weekStartsOn: number;
+  selectedPeriod: ReportingPeriod;
+  onTechnicianChange: (technician: string) => void;
+  onClose: () => void;
+}
+
+// Chart colors matching the tailwind palette
+const CHART_COLORS = {
+  technician: '#2563eb',
+  teamMedian: '#6b7280',
+  success: '#22c55e',
+  warning: '#f59e0b',
+  danger: '#ef4444'
+};
+
+interface TrendChartProps {
+  snapshots: WeeklyKPISnapshot[];
+  technician: string;
+  kpi: KPIDefinition;
+  showTeamMedian: boolean;
+  // Week starts of the first and last charted weeks overlapping the selected period
+  selectedWeeks: { first: Date; last: Date } | null;
+}
+
+function TrendChart({ snapshots, technician, kpi, showTeamMedian, selectedWeeks }: TrendChartProps) {
+  const { unit, thresholds } = kpi;
+  const label = formatKPILabel(kpi, 'week');
+  const points = getTechnicianTrend(snapshots, technician, kpi).map(point => ({
+    ...point,
+    week: formatShortDate(point.weekStart)
+  }));
+  const firstSelected = selectedWeeks && points.find(point => point.weekStart.getTime() === selectedWeeks.first.getTime());
+  const lastSelected = selectedWeeks && points.find(point => point.weekStart.getTime() === selectedWeeks.last.getTime());
+
+  return (
+    <div className="metric-card">
+      <h4 className="text-sm font-medium text-gray-900 mb-2">{label}</h4>
+      <ResponsiveContainer width="100%" height={180}>
+        <LineChart data={points} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+          <YAxis
+            tick={{ fontSize: 11 }}
+            width={unit === 'currency' ? 70 : 40}
+            tickFormatter={(value: number) => unit === 'currency' ? `$${Math.round(value).toLocaleString()}` : String(value)}
+          />
+
+          {/* Threshold bands: below warning, between warning and good, at or above good */}
+          <ReferenceArea y1={0} y2={thresholds.warning} fill={CHART_COLORS.danger} fillOpacity={0.08} ifOverflow="extendDomain" />
+          <ReferenceArea y1={thresholds.warning} y2={thresholds.good} fill={CHART_COLORS.warning} fillOpacity={0.08} ifOverflow="extendDomain" />
+          <ReferenceArea y1={thresholds.good} fill={CHART_COLORS.success} fillOpacity={0.08} />
+
+          {firstSelected && lastSelected && (firstSelected === lastSelected ? (
+            <ReferenceLine x={firstSelected.week} stroke={CHART_COLORS.technician} strokeDasharray="4 4" />
+          ) : (
+            <ReferenceArea x1={firstSelected.week} x2={lastSelected.week} fill={CHART_COLORS.technician} fillOpacity={0.06} />
+          ))}
+
+          <Tooltip
+            formatter={(value) => formatKPIValue(Number(value), unit)}
+            labelFormatter={(_, payload) => {
+              const weekStart = payload?.[0]?.payload?.weekStart as Date | undefined;
+              return weekStart ? `Week of ${formatShortDate(weekStart)}` : '';
+            }}
+          />
+
+          {showTeamMedian && (
+            <Line
+              type="monotone"
+              dataKey="teamMedian"
+              name="Team median"
+              stroke={CHART_COLORS.teamMedian}
+              strokeDasharray="5 5"
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="value"
+            name={technician}
+            stroke={CHART_COLORS.technician}
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            connectNulls={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function TrendPanel({
+  data,
+  technician,
+  registry,
+  revenuePrecedence,
+  weekStartsOn,
+  selectedPeriod,
+  onTechnicianChange,
+  onClose
+}: TrendPanelProps) {
+  const [showTeamMedian, setShowTeamMedian] = useState(true);
+
+  // Every week of the uploaded range; recalculated only when the data, week definition or KPIs change
+  const snapshots = useMemo(
+    () => calculateWeeklyKPIs(data, weekStartsOn, registry, revenuePrecedence),
+    [data, weekStartsOn, registry, revenuePrecedence]
+  );
+
+  const selectedSnapshots = snapshots.filter(snapshot =>
+    snapshot.end >= selectedPeriod.start && snapshot.start <= selectedPeriod.end
+  );
+  const selectedWeeks = selectedSnapshots.length > 0
+    ? { first: selectedSnapshots[0].start, last: selectedSnapshots[selectedSnapshots.length - 1].start }
+    : null;
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <TrendingUp className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">KPI Trends</h3>
+            <p className="text-sm text-gray-500">
+              {snapshots.length > 0
+                ? `${snapshots.length} weeks: ${getWeekLabel(snapshots[0].start, snapshots[snapshots.length - 1].end)}`
+                : 'No dated records'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <select
+            value={technician}
+            onChange={(e) => onTechnicianChange(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            aria-label="Technician"
+          >
+            {data.technicianNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+
+          <label className="flex items-center space-x-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={showTeamMedian}
+              onChange={(e) => setShowTeamMedian(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Team median</span>
+          </label>
+
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            aria-label="Close trends"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {registry.map(kpi => (
+          <TrendChart
+            key={kpi.id}
+            snapshots={snapshots}
+            technician={technician}
+            kpi={kpi}
+            showTeamMedian={showTeamMedian}
+            selectedWeeks={selectedWeeks}
+          />
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Shaded bands mark the KPIs' default weekly thresholds (red below warning, amber between warning and good, green at or above good).
+        The highlighted weeks overlap the selected period. Gaps are weeks without records for this technician.
+      </p>
+    </div>
+  );
+}
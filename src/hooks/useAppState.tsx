@@ -1,6 +1,40 @@
-import { createContext, useContext, useReducer, type ReactNode } from 'react';
-import type { AppState, AppAction, UploadedFiles, TechnicianKPIs } from '../types';
-import { getCurrentWeek } from '../utils/dateHelpers';
+import { createContext, useContext, useMemo, useReducer, type ReactNode } from 'react';
+import type {
+  AppState,
+  AppAction,
+  UploadedFiles,
+  ReportSheetNames,
+  TechnicianKPIs,
+  ColumnMappingProfile,
+  ProcessingProgress,
+  CalendarSettings,
+  ServiceCategoryRule,
+  ReportType,
+  ReportingPeriod,
+  Team,
+  ScoringModel,
+  KPITargetSet,
+  CompensationPlan,
+  ResultsView
+} from '../types';
+import { getCurrentPeriod, getPeriodRange, type DateFormat } from '../utils/dateHelpers';
+import { loadActiveMappingProfile } from '../services/columnMapping';
+import {
+  loadDateFormat,
+  loadCalendarSettings,
+  loadRevenuePrecedence,
+  loadCompareLastYear,
+  loadIncludeZeroEfficiencyJobs,
+  loadResultsView,
+  loadPacing
+} from '../services/settings';
+import { loadServiceCategories } from '../services/serviceCategories';
+import { loadTeams } from '../services/teams';
+import { loadScoringModel } from '../services/scoring';
+import { loadRoles, loadTargetSets } from '../services/targets';
+import { loadCompensationPlan } from '../services/compensation';
+
+const initialCalendar = loadCalendarSettings();
 
 // Initial state
 const initialState: AppState = {
@@ -10,9 +44,25 @@ const initialState: AppState = {
     jobTimes: null,
     appointments: null
   },
-  selectedWeek: getCurrentWeek(),
+  uploadedSheetNames: {},
+  period: getCurrentPeriod('week', initialCalendar),
   technicians: [],
+  mappingProfile: loadActiveMappingProfile(),
+  dateFormat: loadDateFormat(),
+  calendar: initialCalendar,
+  serviceCategories: loadServiceCategories(),
+  revenuePrecedence: loadRevenuePrecedence(),
+  compareLastYear: loadCompareLastYear(),
+  includeZeroEfficiencyJobs: loadIncludeZeroEfficiencyJobs(),
+  resultsView: loadResultsView(),
+  teams: loadTeams(),
+  scoringModel: loadScoringModel(),
+  roles: loadRoles(),
+  targetSets: loadTargetSets(),
+  pacing: loadPacing(),
+  compensationPlan: loadCompensationPlan(),
   isProcessing: false,
+  progress: null,
   error: null,
   isDataLoaded: false
 };
@@ -23,16 +73,17 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_FILES':
       return {
         ...state,
-        uploadedFiles: action.payload,
+        uploadedFiles: action.payload.files,
+        uploadedSheetNames: action.payload.sheetNames,
         isDataLoaded: false,
         technicians: [],
         error: null
       };
     
-    case 'SET_WEEK':
+    case 'SET_PERIOD':
       return {
         ...state,
-        selectedWeek: action.payload,
+        period: action.payload,
         isDataLoaded: false,
         technicians: [],
         error: null
@@ -46,17 +97,119 @@ function appReducer(state: AppState, action: AppAction): AppState {
         error: null
       };
     
+    case 'SET_MAPPING_PROFILE':
+      return {
+        ...state,
+        mappingProfile: action.payload,
+        isDataLoaded: false,
+        technicians: [],
+        error: null
+      };
+    
+    case 'SET_DATE_FORMAT':
+      return {
+        ...state,
+        dateFormat: action.payload,
+        isDataLoaded: false,
+        technicians: [],
+        error: null
+      };
+    
+    case 'SET_CALENDAR':
+      // Realign a selected week to the new week start; loaded data stays and is recalculated
+      return {
+        ...state,
+        calendar: action.payload,
+        period: state.period.type !== 'week' || action.payload.weekStartsOn === state.calendar.weekStartsOn
+          ? state.period
+          : getPeriodRange('week', state.period.start, action.payload.weekStartsOn, state.period.rollingDays),
+        error: null
+      };
+    
+    case 'SET_SERVICE_CATEGORIES':
+      // Loaded data stays and is recalculated with the new rules
+      return {
+        ...state,
+        serviceCategories: action.payload,
+        error: null
+      };
+    
+    case 'SET_REVENUE_PRECEDENCE':
+      // Loaded data stays and is recalculated with the new precedence
+      return {
+        ...state,
+        revenuePrecedence: action.payload,
+        error: null
+      };
+    
+    case 'SET_COMPARE_LAST_YEAR':
+      return {
+        ...state,
+        compareLastYear: action.payload
+      };
+    
+    case 'SET_INCLUDE_ZERO_EFFICIENCY_JOBS':
+      return {
+        ...state,
+        includeZeroEfficiencyJobs: action.payload
+      };
+    
+    case 'SET_RESULTS_VIEW':
+      return {
+        ...state,
+        resultsView: action.payload
+      };
+    
+    case 'SET_TEAMS':
+      return {
+        ...state,
+        teams: action.payload
+      };
+    
+    case 'SET_SCORING_MODEL':
+      return {
+        ...state,
+        scoringModel: action.payload
+      };
+    
+    case 'SET_PACING':
+      return {
+        ...state,
+        pacing: action.payload
+      };
+    
+    case 'SET_COMPENSATION_PLAN':
+      return {
+        ...state,
+        compensationPlan: action.payload
+      };
+    
+    case 'SET_TARGETS':
+      return {
+        ...state,
+        roles: action.payload.roles,
+        targetSets: action.payload.targetSets
+      };
+    
     case 'SET_PROCESSING':
       return {
         ...state,
-        isProcessing: action.payload
+        isProcessing: action.payload,
+        progress: null
+      };
+    
+    case 'SET_PROGRESS':
+      return {
+        ...state,
+        progress: action.payload
       };
     
     case 'SET_ERROR':
       return {
         ...state,
         error: action.payload,
-        isProcessing: false
+        isProcessing: false,
+        progress: null
       };
     
     case 'SET_DATA_LOADED':
@@ -99,45 +252,117 @@ export function useAppState() {
   return context;
 }
 
-// Helper functions for common actions
+// Helper functions for common actions (stable across renders so they can be effect dependencies)
 export function useAppActions() {
   const { dispatch } = useAppState();
 
-  const setFiles = (files: UploadedFiles) => {
-    dispatch({ type: 'SET_FILES', payload: files });
-  };
-
-  const setWeek = (week: { start: Date; end: Date }) => {
-    dispatch({ type: 'SET_WEEK', payload: week });
-  };
-
-  const setTechnicians = (technicians: TechnicianKPIs[]) => {
-    dispatch({ type: 'SET_TECHNICIANS', payload: technicians });
-  };
-
-  const setProcessing = (isProcessing: boolean) => {
-    dispatch({ type: 'SET_PROCESSING', payload: isProcessing });
-  };
-
-  const setError = (error: string | null) => {
-    dispatch({ type: 'SET_ERROR', payload: error });
-  };
-
-  const setDataLoaded = (isDataLoaded: boolean) => {
-    dispatch({ type: 'SET_DATA_LOADED', payload: isDataLoaded });
-  };
-
-  const resetState = () => {
-    dispatch({ type: 'RESET_STATE' });
-  };
-
-  return {
-    setFiles,
-    setWeek,
-    setTechnicians,
-    setProcessing,
-    setError,
-    setDataLoaded,
-    resetState
-  };
-} 
\ No newline at end of file
+  return useMemo(() => {
+    const setFiles = (files: UploadedFiles, sheetNames: ReportSheetNames = {}) => {
+      dispatch({ type: 'SET_FILES', payload: { files, sheetNames } });
+    };
+
+    const setPeriod = (period: ReportingPeriod) => {
+      dispatch({ type: 'SET_PERIOD', payload: period });
+    };
+
+    const setTechnicians = (technicians: TechnicianKPIs[]) => {
+      dispatch({ type: 'SET_TECHNICIANS', payload: technicians });
+    };
+
+    const setMappingProfile = (profile: ColumnMappingProfile) => {
+      dispatch({ type: 'SET_MAPPING_PROFILE', payload: profile });
+    };
+
+    const setDateFormat = (format: DateFormat) => {
+      dispatch({ type: 'SET_DATE_FORMAT', payload: format });
+    };
+
+    const setCalendar = (calendar: CalendarSettings) => {
+      dispatch({ type: 'SET_CALENDAR', payload: calendar });
+    };
+
+    const setServiceCategories = (rules: ServiceCategoryRule[]) => {
+      dispatch({ type: 'SET_SERVICE_CATEGORIES', payload: rules });
+    };
+
+    const setRevenuePrecedence = (precedence: ReportType[]) => {
+      dispatch({ type: 'SET_REVENUE_PRECEDENCE', payload: precedence });
+    };
+
+    const setCompareLastYear = (compareLastYear: boolean) => {
+      dispatch({ type: 'SET_COMPARE_LAST_YEAR', payload: compareLastYear });
+    };
+
+    const setIncludeZeroEfficiencyJobs = (includeZeroEfficiencyJobs: boolean) => {
+      dispatch({ type: 'SET_INCLUDE_ZERO_EFFICIENCY_JOBS', payload: includeZeroEfficiencyJobs });
+    };
+
+    const setResultsView = (view: ResultsView) => {
+      dispatch({ type: 'SET_RESULTS_VIEW', payload: view });
+    };
+
+    const setTeams = (teams: Team[]) => {
+      dispatch({ type: 'SET_TEAMS', payload: teams });
+    };
+
+    const setScoringModel = (model: ScoringModel) => {
+      dispatch({ type: 'SET_SCORING_MODEL', payload: model });
+    };
+
+    const setPacing = (pacing: boolean) => {
+      dispatch({ type: 'SET_PACING', payload: pacing });
+    };
+
+    const setCompensationPlan = (plan: CompensationPlan) => {
+      dispatch({ type: 'SET_COMPENSATION_PLAN', payload: plan });
+    };
+
+    const setTargets = (roles: Record<string, string>, targetSets: KPITargetSet[]) => {
+      dispatch({ type: 'SET_TARGETS', payload: { roles, targetSets } });
+    };
+
+    const setProcessing = (isProcessing: boolean) => {
+      dispatch({ type: 'SET_PROCESSING', payload: isProcessing });
+    };
+
+    const setProgress = (progress: ProcessingProgress | null) => {
+      dispatch({ type: 'SET_PROGRESS', payload: progress });
+    };
+
+    const setError = (error: string | null) => {
+      dispatch({ type: 'SET_ERROR', payload: error });
+    };
+
+    const setDataLoaded = (isDataLoaded: boolean) => {
+      dispatch({ type: 'SET_DATA_LOADED', payload: isDataLoaded });
+    };
+
+    const resetState = () => {
+      dispatch({ type: 'RESET_STATE' });
+    };
+
+    return {
+      setFiles,
+      setPeriod,
+      setTechnicians,
+      setMappingProfile,
+      setDateFormat,
+      setCalendar,
+      setServiceCategories,
+      setRevenuePrecedence,
+      setCompareLastYear,
+      setIncludeZeroEfficiencyJobs,
+      setResultsView,
+      setTeams,
+      setScoringModel,
+      setPacing,
+      setCompensationPlan,
+      setTargets,
+      setProcessing,
+      setProgress,
+      setError,
+      setDataLoaded,
+      resetState
+    };
+  }, [dispatch]);
+}
@@ -0,0 +1,200 @@
+import type { ColumnMappingProfile, ReportColumnMapping, ReportType } from '../types';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+
+const PROFILES_STORAGE_KEY = 'mapping-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'active-mapping-profile';
+
+/**
+ * Canonical columns read from each report (the keys of the raw *Data types)
+ */
+export const REPORT_COLUMNS: Record<ReportType, string[]> = {
+  opportunities: [
+    'Date', 'Job', 'Customer', 'Email', 'Phone', 'Status',
+    'Opportunity Owner', 'Membership Opportunity', 'Membership Sold', 'Revenue'
+  ],
+  lineItems: [
+    'Invoice Date', 'Customer', 'Job', 'Opp. Owner', 'Category', 'Line Item', 'Quantity', 'Price'
+  ],
+  jobTimes: [
+    'First Appointment', 'Job', 'Job Status', 'Customer', 'Opportunity Owner',
+    'Opportunity', 'Total', 'Total Time', 'Sold Time', 'Job Efficiency'
+  ],
+  appointments: [
+    'Appointment', 'Scheduled For', 'Job', 'Customer', 'Appt Status',
+    'Technician', 'Service Category', 'Revenue'
+  ]
+};
+
+/**
+ * Built-in profile matching the vendor's current export headers
+ */
+export const DEFAULT_MAPPING_PROFILE: ColumnMappingProfile = {
+  id: 'default',
+  name: 'Default',
+  reports: {
+    opportunities: {
+      sheetName: 'Opportunities',
+      columns: {
+        Job: ['Job #', 'Job Number'],
+        'Opportunity Owner': ['Opp. Owner', 'Opp Owner']
+      }
+    },
+    lineItems: {
+      sheetName: 'Sold Line Items',
+      columns: {
+        Job: ['Job #', 'Job Number'],
+        'Opp. Owner': ['Opportunity Owner', 'Opp Owner']
+      }
+    },
+    jobTimes: {
+      sheetName: 'Job Times',
+      columns: {
+        Job: ['Job #', 'Job Number'],
+        'Opportunity Owner': ['Opp. Owner', 'Opp Owner']
+      }
+    },
+    appointments: {
+      sheetName: 'Appointments',
+      columns: {
+        Job: ['Job #', 'Job Number'],
+        Appointment: ['Appointment #', 'Appointment ID']
+      }
+    }
+  }
+};
+
+/**
+ * Normalize a header or sheet name for case- and whitespace-insensitive matching
+ */
+export function normalizeHeader(header: unknown): string {
+  return String(header ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Find the sheet matching the mapping's sheet name
+ */
+export function findMappedSheet(sheetNames: string[], mapping: ReportColumnMapping): string | undefined {
+  const expected = normalizeHeader(mapping.sheetName);
+  return sheetNames.find(name => normalizeHeader(name) === expected);
+}
+
+/**
+ * Resolve the index of each canonical column in a header row.
+ * The canonical name always matches itself; aliases are tried in order.
+ */
+export function resolveColumns(
+  headers: unknown[],
+  mapping: ReportColumnMapping,
+  canonicalColumns: string[]
+): { indexes: Record<string, number>; missing: string[] } {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const indexes: Record<string, number> = {};
+  const missing: string[] = [];
+
+  canonicalColumns.forEach(column => {
+    const candidates = [column, ...(mapping.columns[column] ?? [])].map(normalizeHeader);
+    const index = candidates
+      .map(candidate => normalizedHeaders.indexOf(candidate))
+      .find(position => position !== -1);
+
+    if (index === undefined) {
+      missing.push(column);
+    } else {
+      indexes[column] = index;
+    }
+  });
+
+  return { indexes, missing };
+}
+
+/**
+ * Create a copy of a profile with extra header aliases for one report
+ */
+export function addColumnAliases(
+  profile: ColumnMappingProfile,
+  reportType: ReportType,
+  aliases: Record<string, string>
+): ColumnMappingProfile {
+  const reportMapping = profile.reports[reportType];
+  const columns = { ...reportMapping.columns };
+
+  Object.entries(aliases).forEach(([column, header]) => {
+    const existing = columns[column] ?? [];
+    if (!existing.some(alias => normalizeHeader(alias) === normalizeHeader(header))) {
+      columns[column] = [...existing, header.trim()];
+    }
+  });
+
+  return {
+    ...profile,
+    reports: {
+      ...profile.reports,
+      [reportType]: { ...reportMapping, columns }
+    }
+  };
+}
+
+/**
+ * Create a copy of a profile that looks for one report on a different sheet
+ */
+export function setReportSheetName(
+  profile: ColumnMappingProfile,
+  reportType: ReportType,
+  sheetName: string
+): ColumnMappingProfile {
+  return {
+    ...profile,
+    reports: {
+      ...profile.reports,
+      [reportType]: { ...profile.reports[reportType], sheetName: sheetName.trim() }
+    }
+  };
+}
+
+/**
+ * Load saved mapping profiles; the default profile is always first
+ */
+export function loadMappingProfiles(): ColumnMappingProfile[] {
+  const saved = loadFromStorage<ColumnMappingProfile[]>(PROFILES_STORAGE_KEY, []);
+  return [DEFAULT_MAPPING_PROFILE, ...saved.filter(profile => profile.id !== DEFAULT_MAPPING_PROFILE.id)];
+}
+
+/**
+ * Save (insert or replace) a mapping profile
+ */
+export function saveMappingProfile(profile: ColumnMappingProfile): void {
+  if (profile.id === DEFAULT_MAPPING_PROFILE.id) {
+    throw new Error('The default mapping profile cannot be modified');
+  }
+
+  const saved = loadMappingProfiles().slice(1);
+  const others = saved.filter(existing => existing.id !== profile.id);
+  saveToStorage(PROFILES_STORAGE_KEY, [...others, profile]);
+}
+
+/**
+ * Delete a saved mapping profile
+ */
+export function deleteMappingProfile(profileId: string): void {
+  const saved = loadMappingProfiles().slice(1);
+  saveToStorage(PROFILES_STORAGE_KEY, saved.filter(profile => profile.id !== profileId));
+
+  if (loadFromStorage<string | null>(ACTIVE_PROFILE_STORAGE_KEY, null) === profileId) {
+    saveToStorage(ACTIVE_PROFILE_STORAGE_KEY, DEFAULT_MAPPING_PROFILE.id);
+  }
+}
+
+/**
+ * Get the profile selected in a previous session
+ */
+export function loadActiveMappingProfile(): ColumnMappingProfile {
+  const activeId = loadFromStorage<string>(ACTIVE_PROFILE_STORAGE_KEY, DEFAULT_MAPPING_PROFILE.id);
+  return loadMappingProfiles().find(profile => profile.id === activeId) ?? DEFAULT_MAPPING_PROFILE;
+}
+
+/**
+ * Remember the selected profile for future sessions
+ */
+export function saveActiveMappingProfileId(profileId: string): void {
+  saveToStorage(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+}
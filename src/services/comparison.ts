@@ -0,0 +1,76 @@
+import type { KPIDefinition, ProcessedLineItem, ServiceCategoryRule } from '../types';
+import { createServiceCategoryMatcher } from './serviceCategories';
+import { getTechnicianTrend, type WeeklyKPISnapshot } from './trendAnalyzer';
+import { isDateInRange } from '../utils/dateHelpers';
+
+/**
+ * Most technicians shown side by side
+ */
+export const MAX_COMPARED_TECHNICIANS = 4;
+
+/**
+ * Category id of line items no service category matches
+ */
+export const OTHER_CATEGORY_ID = 'other';
+
+/**
+ * One week of a KPI for several technicians; null where a technician had no value
+ */
+export interface ComparisonTrendPoint {
+  weekStart: Date;
+  values: Record<string, number | null>; // technician -> value
+}
+
+/**
+ * A technician's line items split by service category
+ */
+export interface ServiceCategoryMix {
+  technician: string;
+  total: number; // line items sold in the period
+  counts: Record<string, number>; // category id (or OTHER_CATEGORY_ID) -> line items
+}
+
+/**
+ * Week-by-week values of one KPI for each technician, on shared weeks
+ */
+export function getComparisonTrend(
+  snapshots: WeeklyKPISnapshot[],
+  technicians: string[],
+  kpi: KPIDefinition
+): ComparisonTrendPoint[] {
+  const trends = technicians.map(technician => getTechnicianTrend(snapshots, technician, kpi));
+
+  return snapshots.map((snapshot, index) => ({
+    weekStart: snapshot.start,
+    values: Object.fromEntries(technicians.map((technician, position) => [technician, trends[position][index].value]))
+  }));
+}
+
+/**
+ * Service category mix of each technician's line items in a period. Each line item
+ * counts toward the first rule it matches, so a technician's shares add up to 100%.
+ */
+export function getServiceCategoryMix(
+  lineItems: ProcessedLineItem[],
+  technicians: string[],
+  period: { start: Date; end: Date },
+  rules: ServiceCategoryRule[]
+): ServiceCategoryMix[] {
+  const matchers = rules.map(rule => ({ id: rule.id, matches: createServiceCategoryMatcher(rule) }));
+
+  return technicians.map(technician => {
+    const own = lineItems.filter(item =>
+      item.technician === technician && isDateInRange(item.invoiceDate, period.start, period.end)
+    );
+    const counts: Record<string, number> = Object.fromEntries(
+      [...rules.map(rule => rule.id), OTHER_CATEGORY_ID].map(id => [id, 0])
+    );
+
+    own.forEach(item => {
+      const category = matchers.find(matcher => matcher.matches(item))?.id ?? OTHER_CATEGORY_ID;
+      counts[category]++;
+    });
+
+    return { technician, total: own.length, counts };
+  });
+}
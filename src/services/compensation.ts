@@ -0,0 +1,271 @@
+import type {
+  CommissionTier,
+  CommissionTierMode,
+  CompensationPlan,
+  Job,
+  PayoutLine,
+  PayoutStatement,
+  ProcessedLineItem,
+  ProcessedOpportunity,
+  RecordSource,
+  ReportType,
+  ServiceCategoryRule
+} from '../types';
+import { buildJobLedger, type IntegratedData } from './dataIntegrator';
+import { createServiceCategoryMatcher } from './serviceCategories';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+import { formatDate, isDateInRange } from '../utils/dateHelpers';
+
+const COMPENSATION_PLAN_STORAGE_KEY = 'compensation-plan';
+
+const REPORT_NAMES: Record<ReportType, string> = {
+  opportunities: 'Opportunities',
+  lineItems: 'Line Items',
+  jobTimes: 'Job Times',
+  appointments: 'Appointments'
+};
+
+export const COMMISSION_TIER_MODES: { value: CommissionTierMode; label: string; description: string }[] = [
+  { value: 'marginal', label: 'Marginal', description: 'Each tier\'s rate applies to the revenue within that tier' },
+  { value: 'flat', label: 'Flat', description: 'The highest tier reached sets the rate for all revenue' }
+];
+
+/**
+ * Starting plan until the user saves their own; amounts are placeholders to adjust
+ */
+export const DEFAULT_COMPENSATION_PLAN: CompensationPlan = {
+  tiers: [{ from: 0, rate: 10 }],
+  tierMode: 'marginal',
+  spiffs: {
+    hydroJettingJobsSold: 25,
+    descalingJobsSold: 25,
+    waterHeaterJobsSold: 50,
+    tanklessJobsSold: 50
+  },
+  membershipBonus: 10
+};
+
+/**
+ * Commission earned within one tier
+ */
+export interface TierCommission {
+  from: number;
+  to: number | null; // null for the open-ended top tier
+  rate: number;
+  revenue: number;
+  amount: number;
+}
+
+/**
+ * Problems that would make a plan pay out incorrectly; empty when valid
+ */
+export function validateCompensationPlan(plan: CompensationPlan): string[] {
+  const errors: string[] = [];
+
+  if (plan.tiers.length === 0 || plan.tiers[0].from !== 0) {
+    errors.push('The first commission tier must start at $0');
+  }
+  if (plan.tiers.some((tier, index) => index > 0 && !(tier.from > plan.tiers[index - 1].from))) {
+    errors.push('Each tier must start above the previous one');
+  }
+  if (plan.tiers.some(tier => !(tier.rate >= 0 && tier.rate <= 100))) {
+    errors.push('Commission rates must be between 0% and 100%');
+  }
+  if (Object.values(plan.spiffs).some(amount => !(amount >= 0)) || !(plan.membershipBonus >= 0)) {
+    errors.push('Spiffs and bonuses cannot be negative');
+  }
+
+  return errors;
+}
+
+/**
+ * Commission on a revenue total, with the amount earned in each tier
+ */
+export function calculateTieredCommission(
+  revenue: number,
+  plan: CompensationPlan
+): { commission: number; tiers: TierCommission[] } {
+  const upperBound = (index: number) => plan.tiers[index + 1]?.from ?? null;
+
+  if (plan.tierMode === 'flat') {
+    const reached = plan.tiers.reduce<number>((found, tier, index) => revenue >= tier.from ? index : found, 0);
+    const tier: CommissionTier | undefined = plan.tiers[reached];
+    if (!tier || revenue <= 0) return { commission: 0, tiers: [] };
+
+    const amount = revenue * tier.rate / 100;
+    return { commission: amount, tiers: [{ from: tier.from, to: upperBound(reached), rate: tier.rate, revenue, amount }] };
+  }
+
+  const tiers = plan.tiers.map((tier, index) => {
+    const to = upperBound(index);
+    const inTier = Math.max(0, Math.min(revenue, to ?? Infinity) - tier.from);
+    return { from: tier.from, to, rate: tier.rate, revenue: inTier, amount: inTier * tier.rate / 100 };
+  }).filter(tier => tier.revenue > 0);
+
+  return { commission: tiers.reduce((sum, tier) => sum + tier.amount, 0), tiers };
+}
+
+/**
+ * The technician's row on the report a job's revenue came from
+ */
+function getRevenueSourceRow(job: Job, technician: string): RecordSource | null {
+  if (!job.revenueSource) return null;
+  const rows: { technician: string; source: RecordSource }[] = job[job.revenueSource];
+  return rows.find(row => row.technician === technician)?.source ?? null;
+}
+
+/**
+ * Spiff lines for one category: one per counted sale in the rule's count mode
+ */
+function getSpiffLines(lineItems: ProcessedLineItem[], rule: ServiceCategoryRule, amount: number): PayoutLine[] {
+  const matched = lineItems.filter(createServiceCategoryMatcher(rule));
+  const paidJobs = new Set<string>();
+
+  return matched.flatMap(item => {
+    const units = rule.countMode === 'quantity' ? item.quantity : 1;
+    if (rule.countMode === 'jobs') {
+      if (paidJobs.has(item.jobId)) return [];
+      paidJobs.add(item.jobId);
+    }
+
+    return [{
+      kind: 'spiff' as const,
+      date: item.invoiceDate,
+      jobId: item.jobId,
+      description: `${rule.label}: ${item.lineItem}`,
+      basis: units,
+      amount: units * amount,
+      source: item.source
+    }];
+  });
+}
+
+/**
+ * Payout statement of one technician for a period: tiered commission on the ledger
+ * revenue credited to them, spiffs on matched line items and membership bonuses.
+ * Commission lines split the tiered commission across jobs at the effective rate.
+ */
+export function buildPayoutStatement(
+  technician: string,
+  opportunities: ProcessedOpportunity[],
+  lineItems: ProcessedLineItem[],
+  ledger: Job[],
+  period: { start: Date; end: Date },
+  plan: CompensationPlan,
+  serviceCategories: ServiceCategoryRule[]
+): PayoutStatement {
+  const inPeriod = (date: Date | null) => isDateInRange(date, period.start, period.end);
+
+  const jobs = ledger.filter(job => inPeriod(job.date) && technician in job.revenueByTechnician);
+  const revenue = jobs.reduce((sum, job) => sum + job.revenueByTechnician[technician], 0);
+  const { commission } = calculateTieredCommission(revenue, plan);
+  const effectiveRate = revenue > 0 ? commission / revenue : 0;
+
+  const commissionLines: PayoutLine[] = jobs.map(job => ({
+    kind: 'commission',
+    date: job.date,
+    jobId: job.jobId,
+    description: job.revenueSource ? `Job revenue (${REPORT_NAMES[job.revenueSource]} report)` : 'Job revenue',
+    basis: job.revenueByTechnician[technician],
+    amount: job.revenueByTechnician[technician] * effectiveRate,
+    source: getRevenueSourceRow(job, technician)
+  }));
+
+  const ownLineItems = lineItems.filter(item => item.technician === technician && inPeriod(item.invoiceDate));
+  const spiffLines = serviceCategories
+    .filter(rule => (plan.spiffs[rule.id] ?? 0) > 0)
+    .flatMap(rule => getSpiffLines(ownLineItems, rule, plan.spiffs[rule.id]));
+
+  const membershipLines: PayoutLine[] = plan.membershipBonus > 0
+    ? opportunities
+        .filter(opp => opp.technician === technician && opp.membershipSold && inPeriod(opp.date))
+        .map(opp => ({
+          kind: 'membership',
+          date: opp.date,
+          jobId: opp.jobId,
+          description: 'Membership sold',
+          basis: 1,
+          amount: plan.membershipBonus,
+          source: opp.source
+        }))
+    : [];
+
+  const spiffs = spiffLines.reduce((sum, line) => sum + line.amount, 0);
+  const membershipBonuses = membershipLines.reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    technician,
+    revenue,
+    commission,
+    spiffs,
+    membershipBonuses,
+    total: commission + spiffs + membershipBonuses,
+    lines: [...commissionLines, ...spiffLines, ...membershipLines]
+  };
+}
+
+/**
+ * Payout statements of the given technicians for a period
+ */
+export function buildPayoutStatements(
+  data: IntegratedData,
+  technicians: string[],
+  period: { start: Date; end: Date },
+  plan: CompensationPlan,
+  serviceCategories: ServiceCategoryRule[],
+  revenuePrecedence: ReportType[]
+): PayoutStatement[] {
+  const ledger = buildJobLedger(data.opportunities, data.lineItems, data.jobTimes, data.appointments, revenuePrecedence);
+  return technicians.map(technician =>
+    buildPayoutStatement(technician, data.opportunities, data.lineItems, ledger, period, plan, serviceCategories)
+  );
+}
+
+/**
+ * Every payout line of the statements as CSV rows (header first), for payroll and disputes
+ */
+export function getPayoutLinesTable(statements: PayoutStatement[]): unknown[][] {
+  return [
+    ['Technician', 'Type', 'Date', 'Job ID', 'Description', 'Basis', 'Amount', 'Source File', 'Source Row'],
+    ...statements.flatMap(statement => statement.lines.map(line => [
+      statement.technician,
+      line.kind,
+      line.date ? formatDate(line.date) : '',
+      line.jobId,
+      line.description,
+      line.basis,
+      Math.round(line.amount * 100) / 100,
+      line.source?.file ?? '',
+      line.source?.row ?? ''
+    ]))
+  ];
+}
+
+/**
+ * Whether a stored value has the shape of a compensation plan
+ */
+function isCompensationPlan(value: unknown): value is CompensationPlan {
+  const plan = value as CompensationPlan;
+  return typeof plan === 'object' && plan !== null &&
+    Array.isArray(plan.tiers) &&
+    plan.tiers.every(tier => typeof tier?.from === 'number' && typeof tier?.rate === 'number') &&
+    COMMISSION_TIER_MODES.some(mode => mode.value === plan.tierMode) &&
+    typeof plan.spiffs === 'object' && plan.spiffs !== null &&
+    Object.values(plan.spiffs).every(amount => typeof amount === 'number') &&
+    typeof plan.membershipBonus === 'number';
+}
+
+/**
+ * Load the saved compensation plan, or the default when none is saved
+ */
+export function loadCompensationPlan(): CompensationPlan {
+  const saved = loadFromStorage<unknown>(COMPENSATION_PLAN_STORAGE_KEY, null);
+  return isCompensationPlan(saved) && validateCompensationPlan(saved).length === 0 ? saved : DEFAULT_COMPENSATION_PLAN;
+}
+
+/**
+ * Remember the compensation plan for future sessions
+ */
+export function saveCompensationPlan(plan: CompensationPlan): void {
+  saveToStorage(COMPENSATION_PLAN_STORAGE_KEY, plan);
+}
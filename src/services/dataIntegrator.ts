@@ -3,7 +3,17 @@ import type {
   ProcessedLineItem,
   ProcessedJobTime,
   ProcessedAppointment,
-  UploadedFiles
+  UploadedFiles,
+  ReportSheetNames,
+  ColumnMappingProfile,
+  MissingColumnsIssue,
+  ReportType,
+  ProcessingProgress,
+  ProcessingStage,
+  RejectedRow,
+  MergeConflict,
+  Job,
+  ProcessedRecord
 } from '../types';
 import {
   parseOpportunitiesFile,
@@ -11,9 +21,14 @@ import {
   parseJobTimesFile,
   parseAppointmentsFile,
   validateFileStructure,
-  FILE_VALIDATION_REQUIREMENTS
+  readSpreadsheet,
+  MissingColumnsError,
+  MissingSheetError,
+  type SpreadsheetSource
 } from './fileParser';
-import { isValidExcelFile, isValidFileSize } from '../utils/formatters';
+import { DEFAULT_MAPPING_PROFILE } from './columnMapping';
+import { DEFAULT_DATE_FORMAT, DEFAULT_CALENDAR, startOfDay, endOfDay, type DateFormat } from '../utils/dateHelpers';
+import { isValidReportFile, isValidFileSize } from '../utils/formatters';
 
 /**
  * Integrated data structure containing all processed data
@@ -25,6 +40,8 @@ export interface IntegratedData {
   appointments: ProcessedAppointment[];
   technicianNames: string[];
   jobIds: string[];
+  rejectedRows: RejectedRow[];
+  conflicts: MergeConflict[]; // restated records resolved when appending uploads to a history
 }
 
 /**
@@ -34,14 +51,20 @@ export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  columnIssues: MissingColumnsIssue[];
 }
 
 /**
  * Validate all uploaded files
  */
-export async function validateUploadedFiles(files: UploadedFiles): Promise<ValidationResult> {
+export async function validateUploadedFiles(
+  files: UploadedFiles,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  sheetNames: ReportSheetNames = {}
+): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const columnIssues: MissingColumnsIssue[] = [];
 
   // Check if all required files are present
   if (!files.opportunities) {
@@ -59,87 +82,204 @@ export async function validateUploadedFiles(files: UploadedFiles): Promise<Valid
 
   // Validate each file individually
   if (files.opportunities) {
-    const result = await validateFile(files.opportunities, 'opportunities');
+    const result = await validateFile(files.opportunities, 'opportunities', profile, sheetNames.opportunities);
     errors.push(...result.errors);
     warnings.push(...result.warnings);
+    columnIssues.push(...result.columnIssues);
   }
 
   if (files.lineItems) {
-    const result = await validateFile(files.lineItems, 'lineItems');
+    const result = await validateFile(files.lineItems, 'lineItems', profile, sheetNames.lineItems);
     errors.push(...result.errors);
     warnings.push(...result.warnings);
+    columnIssues.push(...result.columnIssues);
   }
 
   if (files.jobTimes) {
-    const result = await validateFile(files.jobTimes, 'jobTimes');
+    const result = await validateFile(files.jobTimes, 'jobTimes', profile, sheetNames.jobTimes);
     errors.push(...result.errors);
     warnings.push(...result.warnings);
+    columnIssues.push(...result.columnIssues);
   }
 
   if (files.appointments) {
-    const result = await validateFile(files.appointments, 'appointments');
+    const result = await validateFile(files.appointments, 'appointments', profile, sheetNames.appointments);
     errors.push(...result.errors);
     warnings.push(...result.warnings);
+    columnIssues.push(...result.columnIssues);
   }
 
   return {
     isValid: errors.length === 0,
     errors,
-    warnings
+    warnings,
+    columnIssues
   };
 }
 
 /**
  * Validate individual file
  */
-async function validateFile(file: File, fileType: keyof typeof FILE_VALIDATION_REQUIREMENTS): Promise<ValidationResult> {
+async function validateFile(
+  file: File,
+  fileType: ReportType,
+  profile: ColumnMappingProfile,
+  sheetName?: string
+): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const columnIssues: MissingColumnsIssue[] = [];
 
   // Check file type
-  if (!isValidExcelFile(file)) {
-    errors.push(`${fileType} file must be an Excel file (.xlsx or .xls)`);
-    return { isValid: false, errors, warnings };
+  if (!isValidReportFile(file)) {
+    errors.push(`${fileType} file must be an Excel, CSV or TSV file (.xlsx, .xls, .csv, .tsv)`);
+    return { isValid: false, errors, warnings, columnIssues };
   }
 
   // Check file size
   if (!isValidFileSize(file)) {
     errors.push(`${fileType} file size must be under 10MB`);
-    return { isValid: false, errors, warnings };
+    return { isValid: false, errors, warnings, columnIssues };
   }
 
   // Validate file structure
   try {
-    const requirements = FILE_VALIDATION_REQUIREMENTS[fileType];
-    await validateFileStructure(file, requirements.sheetName, requirements.requiredColumns);
+    await validateFileStructure(file, fileType, profile, sheetName);
   } catch (error) {
     errors.push(`${fileType} file validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (error instanceof MissingColumnsError) {
+      columnIssues.push({
+        fileType,
+        fileName: file.name,
+        sheetName: error.sheetName,
+        availableSheets: error.availableSheets,
+        missingColumns: error.missingColumns,
+        availableHeaders: error.availableHeaders
+      });
+    } else if (error instanceof MissingSheetError) {
+      columnIssues.push({
+        fileType,
+        fileName: file.name,
+        availableSheets: error.availableSheets,
+        missingColumns: [],
+        availableHeaders: []
+      });
+    }
   }
 
   return {
     isValid: errors.length === 0,
     errors,
-    warnings
+    warnings,
+    columnIssues
+  };
+}
+
+/**
+ * Overall progress range (percent) covered by each processing stage
+ */
+export const PROCESSING_STAGE_RANGES: Record<ProcessingStage, [number, number]> = {
+  reading: [0, 40],
+  parsing: [40, 80],
+  cleaning: [80, 90],
+  computing: [90, 100]
+};
+
+/**
+ * Build a progress reporter that tracks per-file and overall progress
+ */
+function createProgressReporter(files: UploadedFiles, onProgress?: (progress: ProcessingProgress) => void) {
+  const fileProgress: Record<ReportType, number> = {
+    opportunities: files.opportunities ? 0 : 100,
+    lineItems: files.lineItems ? 0 : 100,
+    jobTimes: files.jobTimes ? 0 : 100,
+    appointments: files.appointments ? 0 : 100
+  };
+
+  return (stage: ProcessingStage, fraction: number, fileTypes: ReportType[] = []) => {
+    if (!onProgress) return;
+
+    // Each file is half reading, half parsing
+    fileTypes.forEach(fileType => {
+      fileProgress[fileType] = stage === 'reading' ? fraction * 50 : 50 + fraction * 50;
+    });
+
+    const [start, end] = PROCESSING_STAGE_RANGES[stage];
+    const fileValues = Object.values(fileProgress);
+    const percent = stage === 'reading' || stage === 'parsing'
+      ? (fileValues.reduce((sum, value) => sum + value, 0) / fileValues.length) * (PROCESSING_STAGE_RANGES.parsing[1] / 100)
+      : start + fraction * (end - start);
+
+    onProgress({ stage, percent: Math.round(percent), files: { ...fileProgress } });
   };
 }
 
+/**
+ * Settings that control how uploaded files are parsed
+ */
+export interface ProcessingOptions {
+  profile?: ColumnMappingProfile;
+  dateFormat?: DateFormat;
+  timeZone?: string;
+  sheetNames?: ReportSheetNames; // sheet each report was detected on
+}
+
 /**
  * Process and integrate all uploaded files
  */
-export async function processAndIntegrateFiles(files: UploadedFiles): Promise<IntegratedData> {
+export async function processAndIntegrateFiles(
+  files: UploadedFiles,
+  options: ProcessingOptions = {},
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<IntegratedData> {
+  const {
+    profile = DEFAULT_MAPPING_PROFILE,
+    dateFormat = DEFAULT_DATE_FORMAT,
+    timeZone = DEFAULT_CALENDAR.timeZone,
+    sheetNames = {}
+  } = options;
+  const reportProgress = createProgressReporter(files, onProgress);
+
+  // Read each distinct file once; a workbook holding several reports fills several slots
+  const fileTypesByFile = new Map<File, ReportType[]>();
+  (Object.keys(files) as ReportType[]).forEach(fileType => {
+    const file = files[fileType];
+    if (file) {
+      fileTypesByFile.set(file, [...(fileTypesByFile.get(file) ?? []), fileType]);
+    }
+  });
+
+  const sources = new Map<File, SpreadsheetSource>();
+  for (const [file, fileTypes] of fileTypesByFile) {
+    sources.set(file, await readSpreadsheet(file, (stage, fraction) => reportProgress(stage, fraction, fileTypes)));
+  }
+
   // Parse all files
   const [opportunities, lineItems, jobTimes, appointments] = await Promise.all([
-    files.opportunities ? parseOpportunitiesFile(files.opportunities) : Promise.resolve([]),
-    files.lineItems ? parseLineItemsFile(files.lineItems) : Promise.resolve([]),
-    files.jobTimes ? parseJobTimesFile(files.jobTimes) : Promise.resolve([]),
-    files.appointments ? parseAppointmentsFile(files.appointments) : Promise.resolve([])
+    files.opportunities ? parseOpportunitiesFile(sources.get(files.opportunities)!, profile, dateFormat, timeZone, sheetNames.opportunities) : Promise.resolve([]),
+    files.lineItems ? parseLineItemsFile(sources.get(files.lineItems)!, profile, dateFormat, timeZone, sheetNames.lineItems) : Promise.resolve([]),
+    files.jobTimes ? parseJobTimesFile(sources.get(files.jobTimes)!, profile, dateFormat, timeZone, sheetNames.jobTimes) : Promise.resolve([]),
+    files.appointments ? parseAppointmentsFile(sources.get(files.appointments)!, profile, dateFormat, timeZone, sheetNames.appointments) : Promise.resolve([])
   ]);
 
+  reportProgress('cleaning', 0);
+
   // Clean and validate data
-  const cleanedOpportunities = cleanOpportunitiesData(opportunities);
-  const cleanedLineItems = cleanLineItemsData(lineItems);
-  const cleanedJobTimes = cleanJobTimesData(jobTimes);
-  const cleanedAppointments = cleanAppointmentsData(appointments);
+  const opportunitiesResult = cleanOpportunitiesData(opportunities);
+  const lineItemsResult = cleanLineItemsData(lineItems);
+  const jobTimesResult = cleanJobTimesData(jobTimes);
+  const appointmentsResult = cleanAppointmentsData(appointments);
+
+  const cleanedOpportunities = opportunitiesResult.records;
+  const cleanedLineItems = lineItemsResult.records;
+  const cleanedJobTimes = jobTimesResult.records;
+  const cleanedAppointments = appointmentsResult.records;
+  const rejectedRows = [
+    ...opportunitiesResult.rejected,
+    ...lineItemsResult.rejected,
+    ...jobTimesResult.rejected,
+    ...appointmentsResult.rejected
+  ];
 
   // Extract unique technician names and job IDs
   const technicianNames = extractTechnicianNames(
@@ -156,101 +296,148 @@ export async function processAndIntegrateFiles(files: UploadedFiles): Promise<In
     cleanedAppointments
   );
 
+  reportProgress('cleaning', 1);
+
   return {
     opportunities: cleanedOpportunities,
     lineItems: cleanedLineItems,
     jobTimes: cleanedJobTimes,
     appointments: cleanedAppointments,
     technicianNames,
-    jobIds
+    jobIds,
+    rejectedRows,
+    conflicts: []
   };
 }
 
+/**
+ * Rules applied by the cleaning step; each rejected row records which one fired
+ */
+export const CLEANING_RULES = {
+  missingJobId: 'Missing job ID',
+  missingTechnician: 'Missing technician',
+  missingDate: 'Missing date',
+  invalidDate: 'Unparseable date',
+  negativeRevenue: 'Negative revenue',
+  negativePrice: 'Negative price',
+  nonPositiveQuantity: 'Quantity not positive',
+  efficiencyOutOfRange: 'Job efficiency outside 0–100%'
+} as const;
+
+/**
+ * Records that passed cleaning plus the rows that were rejected
+ */
+export interface CleaningResult<T> {
+  records: T[];
+  rejected: RejectedRow[];
+}
+
+/**
+ * Split records into kept and rejected using a rule check
+ */
+function partitionRecords<T extends RejectedRow['record']>(
+  report: ReportType,
+  records: T[],
+  getRejectionRule: (record: T) => string | null
+): CleaningResult<T> {
+  const kept: T[] = [];
+  const rejected: RejectedRow[] = [];
+
+  records.forEach(record => {
+    const rule = getRejectionRule(record);
+    if (rule) {
+      rejected.push({
+        report,
+        source: record.source,
+        technician: record.technician,
+        jobId: record.jobId,
+        rule,
+        detail: record.source.errors?.join('; '),
+        record
+      });
+    } else {
+      kept.push(record);
+    }
+  });
+
+  return { records: kept, rejected };
+}
+
 /**
  * Clean opportunities data
  */
-function cleanOpportunitiesData(opportunities: ProcessedOpportunity[]): ProcessedOpportunity[] {
-  return opportunities.filter(opp => {
+function cleanOpportunitiesData(opportunities: ProcessedOpportunity[]): CleaningResult<ProcessedOpportunity> {
+  return partitionRecords('opportunities', opportunities, opp => {
     // Remove records with missing critical data
-    if (!opp.jobId || !opp.technician || !opp.date) {
-      return false;
-    }
+    if (!opp.jobId) return CLEANING_RULES.missingJobId;
+    if (!opp.technician) return CLEANING_RULES.missingTechnician;
+    if (!opp.date) return opp.source.errors ? CLEANING_RULES.invalidDate : CLEANING_RULES.missingDate;
     
     // Validate revenue is positive
-    if (opp.revenue < 0) {
-      return false;
-    }
+    if (opp.revenue < 0) return CLEANING_RULES.negativeRevenue;
     
-    return true;
+    return null;
   });
 }
 
 /**
  * Clean line items data
  */
-function cleanLineItemsData(lineItems: ProcessedLineItem[]): ProcessedLineItem[] {
-  return lineItems.filter(item => {
+function cleanLineItemsData(lineItems: ProcessedLineItem[]): CleaningResult<ProcessedLineItem> {
+  return partitionRecords('lineItems', lineItems, item => {
     // Remove records with missing critical data
-    if (!item.jobId || !item.technician || !item.invoiceDate) {
-      return false;
-    }
+    if (!item.jobId) return CLEANING_RULES.missingJobId;
+    if (!item.technician) return CLEANING_RULES.missingTechnician;
+    if (!item.invoiceDate) return item.source.errors ? CLEANING_RULES.invalidDate : CLEANING_RULES.missingDate;
     
     // Validate price is positive
-    if (item.price < 0) {
-      return false;
-    }
+    if (item.price < 0) return CLEANING_RULES.negativePrice;
     
     // Validate quantity is positive
-    if (item.quantity <= 0) {
-      return false;
-    }
+    if (item.quantity <= 0) return CLEANING_RULES.nonPositiveQuantity;
     
-    return true;
+    return null;
   });
 }
 
 /**
  * Clean job times data
  */
-function cleanJobTimesData(jobTimes: ProcessedJobTime[]): ProcessedJobTime[] {
-  return jobTimes.filter(job => {
+function cleanJobTimesData(jobTimes: ProcessedJobTime[]): CleaningResult<ProcessedJobTime> {
+  return partitionRecords('jobTimes', jobTimes, job => {
     // Remove records with missing critical data
-    if (!job.jobId || !job.technician || !job.firstAppointment) {
-      return false;
-    }
+    if (!job.jobId) return CLEANING_RULES.missingJobId;
+    if (!job.technician) return CLEANING_RULES.missingTechnician;
+    if (!job.firstAppointment) return job.source.errors ? CLEANING_RULES.invalidDate : CLEANING_RULES.missingDate;
     
     // Validate efficiency is within reasonable range
-    if (job.jobEfficiency < 0 || job.jobEfficiency > 100) {
-      return false;
-    }
+    if (job.jobEfficiency < 0 || job.jobEfficiency > 100) return CLEANING_RULES.efficiencyOutOfRange;
     
-    return true;
+    return null;
   });
 }
 
 /**
  * Clean appointments data
  */
-function cleanAppointmentsData(appointments: ProcessedAppointment[]): ProcessedAppointment[] {
-  return appointments.filter(appt => {
+function cleanAppointmentsData(appointments: ProcessedAppointment[]): CleaningResult<ProcessedAppointment> {
+  return partitionRecords('appointments', appointments, appt => {
     // Remove records with missing critical data
-    if (!appt.jobId || !appt.technician || !appt.scheduledFor) {
-      return false;
-    }
+    if (!appt.jobId) return CLEANING_RULES.missingJobId;
+    if (!appt.technician) return CLEANING_RULES.missingTechnician;
+    if (!appt.scheduledFor) return appt.source.errors ? CLEANING_RULES.invalidDate : CLEANING_RULES.missingDate;
     
     // Validate revenue is positive
-    if (appt.revenue < 0) {
-      return false;
-    }
+    if (appt.revenue < 0) return CLEANING_RULES.negativeRevenue;
     
-    return true;
+    return null;
   });
 }
 
 /**
  * Extract unique technician names from all data sources
  */
-function extractTechnicianNames(
+export function extractTechnicianNames(
   opportunities: ProcessedOpportunity[],
   lineItems: ProcessedLineItem[],
   jobTimes: ProcessedJobTime[],
@@ -269,7 +456,7 @@ function extractTechnicianNames(
 /**
  * Extract unique job IDs from all data sources
  */
-function extractJobIds(
+export function extractJobIds(
   opportunities: ProcessedOpportunity[],
   lineItems: ProcessedLineItem[],
   jobTimes: ProcessedJobTime[],
@@ -285,6 +472,112 @@ function extractJobIds(
   return Array.from(ids).sort();
 }
 
+/**
+ * Default order in which reports are trusted for a job's revenue
+ */
+export const DEFAULT_REVENUE_PRECEDENCE: ReportType[] = ['opportunities', 'appointments', 'jobTimes', 'lineItems'];
+
+/**
+ * A row of one report for a job, with the revenue it carries
+ */
+interface JobRow {
+  report: ReportType;
+  record: ProcessedRecord;
+  technician: string;
+  revenue: number;
+  date: Date | null;
+}
+
+/**
+ * Technician, revenue and date of each row of one report for a job
+ */
+function getJobRows(job: Job, report: ReportType): JobRow[] {
+  switch (report) {
+    case 'opportunities':
+      return job.opportunities.map(opp => ({ report, record: opp, technician: opp.technician, revenue: opp.revenue, date: opp.date }));
+    case 'appointments':
+      return job.appointments.map(appt => ({ report, record: appt, technician: appt.technician, revenue: appt.revenue, date: appt.scheduledFor }));
+    case 'jobTimes':
+      return job.jobTimes.map(jobTime => ({ report, record: jobTime, technician: jobTime.technician, revenue: jobTime.total, date: jobTime.firstAppointment }));
+    case 'lineItems':
+      return job.lineItems.map(item => ({ report, record: item, technician: item.technician, revenue: item.price * item.quantity, date: item.invoiceDate }));
+  }
+}
+
+/**
+ * Rows of a job's revenue source that credit revenue to a technician
+ */
+export function getJobRevenueRows(job: Job, technician: string): JobRow[] {
+  return job.revenueSource ? getJobRows(job, job.revenueSource).filter(row => row.technician === technician) : [];
+}
+
+/**
+ * Earliest valid date of a list, or null
+ */
+function earliestDate(dates: (Date | null)[]): Date | null {
+  const valid = dates.filter((date): date is Date => date instanceof Date && !isNaN(date.getTime()));
+  return valid.length > 0 ? new Date(Math.min(...valid.map(date => date.getTime()))) : null;
+}
+
+/**
+ * Join the four reports on job ID into a ledger with one entry per job.
+ * Each job's revenue comes from the first report in the precedence that has
+ * rows for it, so a job listed in several reports is only counted once.
+ */
+export function buildJobLedger(
+  opportunities: ProcessedOpportunity[],
+  lineItems: ProcessedLineItem[],
+  jobTimes: ProcessedJobTime[],
+  appointments: ProcessedAppointment[],
+  precedence: ReportType[] = DEFAULT_REVENUE_PRECEDENCE
+): Job[] {
+  const jobs = new Map<string, Job>();
+  const getJob = (jobId: string): Job => {
+    let job = jobs.get(jobId);
+    if (!job) {
+      job = {
+        jobId,
+        date: null,
+        technicians: [],
+        opportunities: [],
+        lineItems: [],
+        jobTimes: [],
+        appointments: [],
+        completed: false,
+        revenue: 0,
+        revenueSource: null,
+        revenueByTechnician: {}
+      };
+      jobs.set(jobId, job);
+    }
+    return job;
+  };
+
+  opportunities.forEach(opp => getJob(opp.jobId).opportunities.push(opp));
+  lineItems.forEach(item => getJob(item.jobId).lineItems.push(item));
+  jobTimes.forEach(jobTime => getJob(jobTime.jobId).jobTimes.push(jobTime));
+  appointments.forEach(appt => getJob(appt.jobId).appointments.push(appt));
+
+  jobs.forEach(job => {
+    job.technicians = extractTechnicianNames(job.opportunities, job.lineItems, job.jobTimes, job.appointments);
+    job.completed = job.opportunities.some(opp => opp.status === 'Won') ||
+      job.appointments.some(appt => appt.apptStatus === 'Completed') ||
+      job.jobTimes.some(jobTime => jobTime.jobStatus === 'Completed');
+
+    const source = precedence.find(report => job[report].length > 0) ?? null;
+    const sourceRows = source ? getJobRows(job, source) : [];
+    sourceRows.forEach(row => {
+      job.revenue += row.revenue;
+      job.revenueByTechnician[row.technician] = (job.revenueByTechnician[row.technician] ?? 0) + row.revenue;
+    });
+    job.revenueSource = source;
+    job.date = earliestDate(sourceRows.map(row => row.date)) ??
+      earliestDate(DEFAULT_REVENUE_PRECEDENCE.flatMap(report => getJobRows(job, report).map(row => row.date)));
+  });
+
+  return Array.from(jobs.values());
+}
+
 /**
  * Get data summary statistics
  */
@@ -297,16 +590,17 @@ export function getDataSummary(data: IntegratedData): {
   uniqueJobs: number;
   dateRange: { start: Date | null; end: Date | null };
 } {
-  const allDates: Date[] = [
+  const allDates = [
     ...data.opportunities.map(opp => opp.date),
     ...data.lineItems.map(item => item.invoiceDate),
     ...data.jobTimes.map(job => job.firstAppointment),
     ...data.appointments.map(appt => appt.scheduledFor)
-  ].filter(date => date instanceof Date && !isNaN(date.getTime()));
+  ].filter((date): date is Date => date instanceof Date && !isNaN(date.getTime()));
 
+  // Whole days, so a week ending on the last data day counts as covered
   const dateRange = allDates.length > 0 ? {
-    start: new Date(Math.min(...allDates.map(d => d.getTime()))),
-    end: new Date(Math.max(...allDates.map(d => d.getTime())))
+    start: startOfDay(new Date(Math.min(...allDates.map(d => d.getTime())))),
+    end: endOfDay(new Date(Math.max(...allDates.map(d => d.getTime()))))
   } : { start: null, end: null };
 
   return {
@@ -318,4 +612,97 @@ export function getDataSummary(data: IntegratedData): {
     uniqueJobs: data.jobIds.length,
     dateRange
   };
-} 
\ No newline at end of file
+} 
+
+/**
+ * Rejected rows grouped by source file
+ */
+export interface FileRejectionSummary {
+  report: ReportType;
+  file: string;
+  total: number;
+  kept: number;
+  byRule: Record<string, number>;
+}
+
+/**
+ * Rejected rows grouped by technician
+ */
+export interface TechnicianRejectionSummary {
+  technician: string;
+  total: number;
+  byReport: Partial<Record<ReportType, number>>;
+}
+
+/**
+ * Summarize rejected rows per source file and per technician
+ */
+export function summarizeRejectedRows(data: IntegratedData): {
+  byFile: FileRejectionSummary[];
+  byTechnician: TechnicianRejectionSummary[];
+} {
+  // Kept records per report and source file, since a history holds several uploads of each report
+  const keptCounts = new Map<string, number>();
+  const countKept = (report: ReportType, records: ProcessedRecord[]) => {
+    records.forEach(record => {
+      const fileKey = `${report}:${record.source.file}`;
+      keptCounts.set(fileKey, (keptCounts.get(fileKey) ?? 0) + 1);
+    });
+  };
+  countKept('opportunities', data.opportunities);
+  countKept('lineItems', data.lineItems);
+  countKept('jobTimes', data.jobTimes);
+  countKept('appointments', data.appointments);
+  const byFile = new Map<string, FileRejectionSummary>();
+  const byTechnician = new Map<string, TechnicianRejectionSummary>();
+
+  data.rejectedRows.forEach(rejected => {
+    const fileKey = `${rejected.report}:${rejected.source.file}`;
+    const fileSummary = byFile.get(fileKey) ?? {
+      report: rejected.report,
+      file: rejected.source.file,
+      total: 0,
+      kept: keptCounts.get(fileKey) ?? 0,
+      byRule: {}
+    };
+    fileSummary.total++;
+    fileSummary.byRule[rejected.rule] = (fileSummary.byRule[rejected.rule] ?? 0) + 1;
+    byFile.set(fileKey, fileSummary);
+
+    const technicianSummary = byTechnician.get(rejected.technician) ?? {
+      technician: rejected.technician,
+      total: 0,
+      byReport: {}
+    };
+    technicianSummary.total++;
+    technicianSummary.byReport[rejected.report] = (technicianSummary.byReport[rejected.report] ?? 0) + 1;
+    byTechnician.set(rejected.technician, technicianSummary);
+  });
+
+  return {
+    byFile: Array.from(byFile.values()),
+    byTechnician: Array.from(byTechnician.values()).sort((a, b) => b.total - a.total)
+  };
+}
+
+/**
+ * Flatten rejected rows into CSV rows (header first) for download
+ */
+export function getRejectedRowsTable(rejectedRows: RejectedRow[]): unknown[][] {
+  const recordColumns = Array.from(new Set(
+    rejectedRows.flatMap(rejected => Object.keys(rejected.record).filter(key => key !== 'source'))
+  ));
+
+  return [
+    ['Report', 'File', 'Sheet', 'Row', 'Rule', 'Detail', ...recordColumns],
+    ...rejectedRows.map(rejected => [
+      rejected.report,
+      rejected.source.file,
+      rejected.source.sheet,
+      rejected.source.row,
+      rejected.rule,
+      rejected.detail,
+      ...recordColumns.map(column => (rejected.record as unknown as Record<string, unknown>)[column])
+    ])
+  ];
+}
@@ -0,0 +1,269 @@
+import type { ReportType, UploadedFiles } from '../types';
+import type { IntegratedData } from './dataIntegrator';
+import { getDataSummary } from './dataIntegrator';
+import { formatDateRange } from '../utils/dateHelpers';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+
+/**
+ * An uploaded file a dataset was built from
+ */
+export interface SourceFileInfo {
+  name: string;
+  size: number;
+  lastModified: Date;
+  sha256: string;
+  reports: ReportType[];
+}
+
+/**
+ * Listing entry for a saved dataset; the parsed records are stored separately
+ */
+export interface DatasetInfo {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  dataAsOf: Date; // newest source file modification time
+  files: SourceFileInfo[];
+  technicianCount: number;
+  jobCount: number;
+  dateRange: { start: Date | null; end: Date | null };
+}
+
+export interface StoredDataset {
+  info: DatasetInfo;
+  data: IntegratedData;
+}
+
+const DB_NAME = 'kpi-scorecard';
+const DB_VERSION = 1;
+const INFO_STORE = 'datasets';
+const DATA_STORE = 'datasetData';
+const ACTIVE_DATASET_STORAGE_KEY = 'active-dataset';
+
+/**
+ * Open the dataset database, creating its stores on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Saving data requires a browser with IndexedDB'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(INFO_STORE)) {
+        db.createObjectStore(INFO_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open saved data'));
+  });
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Saved data request failed'));
+  });
+}
+
+/**
+ * Run a transaction over the given stores and wait for it to commit
+ */
+async function withTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(storeNames, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('Saved data transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Saved data transaction was aborted'));
+    });
+    let result: T;
+    try {
+      result = await run(transaction);
+    } catch (error) {
+      committed.catch(() => undefined);
+      transaction.abort();
+      throw error;
+    }
+    await committed;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * SHA-256 of a file's contents as lowercase hex
+ */
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Describe the distinct files behind the uploaded report slots
+ */
+async function describeSourceFiles(files: UploadedFiles): Promise<SourceFileInfo[]> {
+  const reportsByFile = new Map<File, ReportType[]>();
+  (Object.keys(files) as ReportType[]).forEach(reportType => {
+    const file = files[reportType];
+    if (file) {
+      reportsByFile.set(file, [...(reportsByFile.get(file) ?? []), reportType]);
+    }
+  });
+
+  return Promise.all(Array.from(reportsByFile.entries()).map(async ([file, reports]) => ({
+    name: file.name,
+    size: file.size,
+    lastModified: new Date(file.lastModified),
+    sha256: await hashFile(file),
+    reports
+  })));
+}
+
+/**
+ * Fingerprint of a dataset's source files, independent of file order
+ */
+function getFilesFingerprint(files: SourceFileInfo[]): string {
+  return files.map(file => file.sha256).sort().join('|');
+}
+
+/**
+ * List saved datasets, most recently updated first
+ */
+export async function listDatasets(): Promise<DatasetInfo[]> {
+  const datasets = await withTransaction([INFO_STORE], 'readonly', transaction =>
+    requestResult(transaction.objectStore(INFO_STORE).getAll() as IDBRequest<DatasetInfo[]>)
+  );
+  return datasets.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Load a saved dataset with its parsed records
+ */
+export async function loadDataset(id: string): Promise<StoredDataset | null> {
+  return withTransaction([INFO_STORE, DATA_STORE], 'readonly', async transaction => {
+    const [info, data] = await Promise.all([
+      requestResult(transaction.objectStore(INFO_STORE).get(id) as IDBRequest<DatasetInfo | undefined>),
+      requestResult(transaction.objectStore(DATA_STORE).get(id) as IDBRequest<IntegratedData | undefined>)
+    ]);
+    return info && data ? { info, data } : null;
+  });
+}
+
+/**
+ * Save parsed data with its source file metadata. With `appendTo`, the data is
+ * the merged history and replaces that dataset, adding the new files to its
+ * list. Otherwise re-processing the same files (by content hash) updates the
+ * existing dataset instead of adding a copy.
+ */
+export async function saveDataset(
+  data: IntegratedData,
+  files: UploadedFiles,
+  appendTo: DatasetInfo | null = null
+): Promise<DatasetInfo> {
+  const uploadedFiles = await describeSourceFiles(files);
+  let existing = appendTo;
+  let sourceFiles = uploadedFiles;
+
+  if (appendTo) {
+    const uploadedHashes = new Set(uploadedFiles.map(file => file.sha256));
+    sourceFiles = [...appendTo.files.filter(file => !uploadedHashes.has(file.sha256)), ...uploadedFiles];
+  } else {
+    const fingerprint = getFilesFingerprint(uploadedFiles);
+    existing = (await listDatasets()).find(dataset => getFilesFingerprint(dataset.files) === fingerprint) ?? null;
+  }
+
+  const summary = getDataSummary(data);
+  const now = new Date();
+  const info: DatasetInfo = {
+    id: existing?.id ?? `dataset-${now.getTime()}`,
+    name: existing?.name ?? (summary.dateRange.start && summary.dateRange.end
+      ? formatDateRange(summary.dateRange.start, summary.dateRange.end)
+      : sourceFiles.map(file => file.name).join(', ')),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    dataAsOf: new Date(Math.max(...sourceFiles.map(file => file.lastModified.getTime()))),
+    files: sourceFiles,
+    technicianCount: summary.uniqueTechnicians,
+    jobCount: summary.uniqueJobs,
+    dateRange: summary.dateRange
+  };
+
+  await withTransaction([INFO_STORE, DATA_STORE], 'readwrite', transaction => {
+    transaction.objectStore(INFO_STORE).put(info);
+    transaction.objectStore(DATA_STORE).put(data, info.id);
+  });
+
+  return info;
+}
+
+/**
+ * Rename a saved dataset
+ */
+export async function renameDataset(id: string, name: string): Promise<void> {
+  await withTransaction([INFO_STORE], 'readwrite', async transaction => {
+    const store = transaction.objectStore(INFO_STORE);
+    const info = await requestResult(store.get(id) as IDBRequest<DatasetInfo | undefined>);
+    if (!info) {
+      throw new Error('Saved dataset not found');
+    }
+    store.put({ ...info, name: name.trim() || info.name });
+  });
+}
+
+/**
+ * Delete a saved dataset and its records
+ */
+export async function deleteDataset(id: string): Promise<void> {
+  await withTransaction([INFO_STORE, DATA_STORE], 'readwrite', transaction => {
+    transaction.objectStore(INFO_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+  });
+
+  if (loadActiveDatasetId() === id) {
+    saveActiveDatasetId(null);
+  }
+}
+
+/**
+ * Delete every saved dataset
+ */
+export async function clearDatasets(): Promise<void> {
+  await withTransaction([INFO_STORE, DATA_STORE], 'readwrite', transaction => {
+    transaction.objectStore(INFO_STORE).clear();
+    transaction.objectStore(DATA_STORE).clear();
+  });
+  saveActiveDatasetId(null);
+}
+
+/**
+ * Load the id of the dataset restored on startup
+ */
+export function loadActiveDatasetId(): string | null {
+  return loadFromStorage<string | null>(ACTIVE_DATASET_STORAGE_KEY, null);
+}
+
+/**
+ * Remember which dataset to restore on startup
+ */
+export function saveActiveDatasetId(id: string | null): void {
+  saveToStorage(ACTIVE_DATASET_STORAGE_KEY, id);
+}
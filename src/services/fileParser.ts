@@ -7,64 +7,246 @@ import type {
   ProcessedOpportunity,
   ProcessedLineItem,
   ProcessedJobTime,
-  ProcessedAppointment
+  ProcessedAppointment,
+  ColumnMappingProfile,
+  ReportColumnMapping,
+  ReportType,
+  RecordSource
 } from '../types';
 import { parseCurrency, parsePercentage, parseTimeToMinutes, normalizeTechnicianName } from '../utils/formatters';
-import { parseDate, parseDateTime } from '../utils/dateHelpers';
+import { parseDate, parseDateTime, DEFAULT_DATE_FORMAT, DEFAULT_CALENDAR, type DateFormat } from '../utils/dateHelpers';
+import { decodeText, isDelimitedFileName, parseDelimitedText } from '../utils/csvHelpers';
+import { DEFAULT_MAPPING_PROFILE, REPORT_COLUMNS, findMappedSheet, resolveColumns } from './columnMapping';
 
 /**
- * Parse Excel file and extract data from specified sheet
+ * Spreadsheet contents read from either an Excel workbook or a CSV/TSV export
  */
-export async function parseExcelFile<T>(file: File, sheetName: string): Promise<T[]> {
+export interface SpreadsheetSource {
+  format: 'excel' | 'delimited';
+  fileName: string;
+  sheetNames: string[];
+  getRows: (sheetName: string) => unknown[][];
+  getHeaderRow: (sheetName: string) => unknown[];
+  getFirstRowNumber: (sheetName: string) => number; // 1-based row of getRows()[0]
+}
+
+/**
+ * A raw record with the spreadsheet location it came from
+ */
+export interface ParsedRow<T> {
+  row: T;
+  source: RecordSource;
+}
+
+/**
+ * Progress callback for reading (bytes loaded) and parsing (workbook decoded) a file
+ */
+export type SpreadsheetProgressCallback = (stage: 'reading' | 'parsing', fraction: number) => void;
+
+/**
+ * Read a file into an ArrayBuffer
+ */
+function readFileAsArrayBuffer(file: File, onProgress?: (fraction: number) => void): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        if (!workbook.SheetNames.includes(sheetName)) {
-          throw new Error(`Sheet "${sheetName}" not found in file`);
-        }
-        
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json<T>(worksheet, { header: 1 });
-        
-        // Remove header row and convert to objects
-        const headers = jsonData[0] as string[];
-        const rows = jsonData.slice(1) as any[][];
-        
-        const result = rows.map(row => {
-          const obj: any = {};
-          headers.forEach((header, index) => {
-            obj[header] = row[index];
-          });
-          return obj as T;
-        });
-        
-        resolve(result);
-      } catch (error) {
-        reject(new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`));
+
+    reader.onprogress = (e) => {
+      if (e.lengthComputable && e.total > 0) {
+        onProgress?.(e.loaded / e.total);
       }
     };
-    
+
+    reader.onload = (e) => {
+      resolve(e.target?.result as ArrayBuffer);
+    };
+
     reader.onerror = () => {
       reject(new Error('Failed to read file'));
     };
-    
+
     reader.readAsArrayBuffer(file);
   });
 }
 
+/**
+ * Load a spreadsheet file. Excel workbooks expose their sheets by name;
+ * CSV/TSV exports expose a single table named after the file.
+ */
+export async function readSpreadsheet(file: File, onProgress?: SpreadsheetProgressCallback): Promise<SpreadsheetSource> {
+  const buffer = await readFileAsArrayBuffer(file, fraction => onProgress?.('reading', fraction));
+  onProgress?.('reading', 1);
+
+  if (isDelimitedFileName(file.name)) {
+    const rows = parseDelimitedText(decodeText(buffer));
+    onProgress?.('parsing', 1);
+    return {
+      format: 'delimited',
+      fileName: file.name,
+      sheetNames: [file.name.replace(/\.[^.]+$/, '')],
+      getRows: () => rows,
+      getHeaderRow: () => rows[0] ?? [],
+      getFirstRowNumber: () => 1
+    };
+  }
+
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array' });
+  onProgress?.('parsing', 1);
+  return {
+    format: 'excel',
+    fileName: file.name,
+    sheetNames: workbook.SheetNames,
+    // Blank rows are kept so array positions map back to spreadsheet row numbers
+    getRows: (sheetName: string) =>
+      XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, blankrows: true }),
+    getHeaderRow: (sheetName: string) => {
+      // Convert only the first row of the sheet's used range
+      const worksheet = workbook.Sheets[sheetName];
+      if (!worksheet['!ref']) return [];
+      const range = XLSX.utils.decode_range(worksheet['!ref']);
+      range.e.r = range.s.r;
+      return XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, range })[0] ?? [];
+    },
+    getFirstRowNumber: (sheetName: string) => {
+      const worksheet = workbook.Sheets[sheetName];
+      return worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+    }
+  };
+}
+
+/**
+ * Raised when a report's header row lacks required columns under the active mapping
+ */
+export class MissingColumnsError extends Error {
+  missingColumns: string[];
+  availableHeaders: string[];
+  sheetName: string;
+  availableSheets: string[];
+
+  constructor(missingColumns: string[], availableHeaders: string[], sheetName: string, availableSheets: string[]) {
+    super(`Missing required columns: ${missingColumns.join(', ')}`);
+    this.name = 'MissingColumnsError';
+    this.missingColumns = missingColumns;
+    this.availableHeaders = availableHeaders;
+    this.sheetName = sheetName;
+    this.availableSheets = availableSheets;
+  }
+}
+
+export class MissingSheetError extends Error {
+  availableSheets: string[];
+
+  constructor(sheetName: string, availableSheets: string[]) {
+    super(`Sheet "${sheetName}" not found in file`);
+    this.name = 'MissingSheetError';
+    this.availableSheets = availableSheets;
+  }
+}
+
+/**
+ * Get the rows of the report's sheet: the sheet it was detected on when given,
+ * else the mapped sheet. Delimited exports and single-sheet workbooks have
+ * only one table, so it stands in for whichever sheet is expected.
+ */
+export function getSheetRows(
+  source: SpreadsheetSource,
+  mapping: ReportColumnMapping,
+  detectedSheetName?: string
+): { sheetName: string; rows: unknown[][] } {
+  const detected = detectedSheetName && source.sheetNames.includes(detectedSheetName) ? detectedSheetName : undefined;
+  const sheetName = detected ?? findMappedSheet(source.sheetNames, mapping) ??
+    (source.sheetNames.length === 1 ? source.sheetNames[0] : undefined);
+
+  if (sheetName) {
+    return { sheetName, rows: source.getRows(sheetName) };
+  }
+
+  throw new MissingSheetError(mapping.sheetName, source.sheetNames);
+}
+
+/**
+ * Check whether a spreadsheet row has no values
+ */
+function isBlankRow(row: unknown[] | undefined): boolean {
+  return !row || row.every(cell => cell === undefined || cell === null || String(cell).trim() === '');
+}
+
+/**
+ * Parse a spreadsheet file (Excel, CSV or TSV) into records keyed by canonical column names,
+ * each tagged with its source file, sheet and row number. Blank rows are skipped.
+ * Accepts an already-read source so a workbook holding several reports is read once,
+ * and the sheet the report was detected on, which wins over the profile's sheet name.
+ */
+export async function parseSpreadsheetFile<T>(
+  input: File | SpreadsheetSource,
+  reportType: ReportType,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  sheetName?: string
+): Promise<ParsedRow<T>[]> {
+  try {
+    const source = input instanceof File ? await readSpreadsheet(input) : input;
+    const mapping = profile.reports[reportType];
+    const { sheetName: parsedSheetName, rows: jsonData } = getSheetRows(source, mapping, sheetName);
+    const headerRowNumber = source.getFirstRowNumber(parsedSheetName);
+
+    // Remove header row and convert to objects
+    const headers = jsonData[0] ?? [];
+    const { indexes } = resolveColumns(headers, mapping, REPORT_COLUMNS[reportType]);
+    const parsedRows: ParsedRow<T>[] = [];
+
+    jsonData.slice(1).forEach((row, index) => {
+      if (isBlankRow(row)) return;
+
+      const obj: Record<string, unknown> = {};
+      Object.entries(indexes).forEach(([column, columnIndex]) => {
+        obj[column] = row[columnIndex];
+      });
+      parsedRows.push({
+        row: obj as T,
+        source: { file: source.fileName, sheet: parsedSheetName, row: headerRowNumber + index + 1 }
+      });
+    });
+
+    return parsedRows;
+  } catch (error) {
+    throw new Error(`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse a date cell, recording unparseable (non-blank) values on the row's source
+ * so the cleaning step can report them instead of the date defaulting to today
+ */
+function parseDateCell(
+  value: unknown,
+  column: string,
+  source: RecordSource,
+  dateFormat: DateFormat,
+  timeZone: string,
+  withTime: boolean = false
+): Date | null {
+  const date = withTime ? parseDateTime(value, dateFormat, timeZone) : parseDate(value, dateFormat, timeZone);
+
+  if (!date && value !== undefined && value !== null && String(value).trim() !== '') {
+    source.errors = [...(source.errors ?? []), `Unparseable ${column}: "${String(value)}"`];
+  }
+
+  return date;
+}
+
 /**
  * Parse Opportunities Report
  */
-export async function parseOpportunitiesFile(file: File): Promise<ProcessedOpportunity[]> {
-  const rawData = await parseExcelFile<OpportunityData>(file, 'Opportunities');
+export async function parseOpportunitiesFile(
+  input: File | SpreadsheetSource,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT,
+  timeZone: string = DEFAULT_CALENDAR.timeZone,
+  sheetName?: string
+): Promise<ProcessedOpportunity[]> {
+  const rawData = await parseSpreadsheetFile<OpportunityData>(input, 'opportunities', profile, sheetName);
   
-  return rawData.map(row => ({
-    date: parseDate(row.Date || ''),
+  return rawData.map(({ row, source }) => ({
+    date: parseDateCell(row.Date, 'Date', source, dateFormat, timeZone),
     jobId: String(row.Job || ''),
     customer: row.Customer || '',
     email: row.Email || '',
@@ -73,36 +255,50 @@ export async function parseOpportunitiesFile(file: File): Promise<ProcessedOppor
     technician: normalizeTechnicianName(row['Opportunity Owner']),
     membershipOpportunity: row['Membership Opportunity'] === 'Yes',
     membershipSold: row['Membership Sold'] === 'Yes',
-    revenue: typeof row.Revenue === 'number' ? row.Revenue : parseCurrency(String(row.Revenue || '0'))
+    revenue: typeof row.Revenue === 'number' ? row.Revenue : parseCurrency(String(row.Revenue || '0')),
+    source
   }));
 }
 
 /**
  * Parse Line Items Sold Report
  */
-export async function parseLineItemsFile(file: File): Promise<ProcessedLineItem[]> {
-  const rawData = await parseExcelFile<LineItemData>(file, 'Sold Line Items');
+export async function parseLineItemsFile(
+  input: File | SpreadsheetSource,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT,
+  timeZone: string = DEFAULT_CALENDAR.timeZone,
+  sheetName?: string
+): Promise<ProcessedLineItem[]> {
+  const rawData = await parseSpreadsheetFile<LineItemData>(input, 'lineItems', profile, sheetName);
   
-  return rawData.map(row => ({
-    invoiceDate: parseDate(row['Invoice Date'] || ''),
+  return rawData.map(({ row, source }) => ({
+    invoiceDate: parseDateCell(row['Invoice Date'], 'Invoice Date', source, dateFormat, timeZone),
     customer: row.Customer || '',
     jobId: String(row.Job || ''),
     technician: normalizeTechnicianName(row['Opp. Owner']),
     category: row.Category || '',
     lineItem: row['Line Item'] || '',
     quantity: typeof row.Quantity === 'number' ? row.Quantity : parseInt(String(row.Quantity || '1'), 10) || 1,
-    price: typeof row.Price === 'number' ? row.Price : parseCurrency(String(row.Price || '0'))
+    price: typeof row.Price === 'number' ? row.Price : parseCurrency(String(row.Price || '0')),
+    source
   }));
 }
 
 /**
  * Parse Job Times Report
  */
-export async function parseJobTimesFile(file: File): Promise<ProcessedJobTime[]> {
-  const rawData = await parseExcelFile<JobTimeData>(file, 'Job Times');
+export async function parseJobTimesFile(
+  input: File | SpreadsheetSource,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT,
+  timeZone: string = DEFAULT_CALENDAR.timeZone,
+  sheetName?: string
+): Promise<ProcessedJobTime[]> {
+  const rawData = await parseSpreadsheetFile<JobTimeData>(input, 'jobTimes', profile, sheetName);
   
-  return rawData.map(row => ({
-    firstAppointment: parseDate(row['First Appointment'] || ''),
+  return rawData.map(({ row, source }) => ({
+    firstAppointment: parseDateCell(row['First Appointment'], 'First Appointment', source, dateFormat, timeZone),
     jobId: String(row.Job || ''),
     jobStatus: row['Job Status'] || 'Pending',
     customer: row.Customer || '',
@@ -111,79 +307,74 @@ export async function parseJobTimesFile(file: File): Promise<ProcessedJobTime[]>
     total: parseCurrency(row.Total),
     totalTime: parseTimeToMinutes(row['Total Time']),
     soldTime: parseTimeToMinutes(row['Sold Time']),
-    jobEfficiency: parsePercentage(row['Job Efficiency'])
+    jobEfficiency: parsePercentage(row['Job Efficiency']),
+    source
   }));
 }
 
 /**
  * Parse Appointments Report
  */
-export async function parseAppointmentsFile(file: File): Promise<ProcessedAppointment[]> {
-  const rawData = await parseExcelFile<AppointmentData>(file, 'Appointments');
+export async function parseAppointmentsFile(
+  input: File | SpreadsheetSource,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT,
+  timeZone: string = DEFAULT_CALENDAR.timeZone,
+  sheetName?: string
+): Promise<ProcessedAppointment[]> {
+  const rawData = await parseSpreadsheetFile<AppointmentData>(input, 'appointments', profile, sheetName);
   
-  return rawData.map(row => ({
+  return rawData.map(({ row, source }) => ({
     appointmentId: String(row.Appointment || ''),
-    scheduledFor: parseDateTime(row['Scheduled For'] || ''),
+    scheduledFor: parseDateCell(row['Scheduled For'], 'Scheduled For', source, dateFormat, timeZone, true),
     jobId: String(row.Job || ''),
     customer: row.Customer || '',
     apptStatus: row['Appt Status'] || 'Pending',
     technician: normalizeTechnicianName(row.Technician),
     serviceCategory: row['Service Category'] || '',
-    revenue: typeof row.Revenue === 'number' ? row.Revenue : parseCurrency(String(row.Revenue || '0'))
+    revenue: typeof row.Revenue === 'number' ? row.Revenue : parseCurrency(String(row.Revenue || '0')),
+    source
   }));
 }
 
 /**
- * Validate file structure and required columns
+ * Validate file structure and required columns under a mapping profile
  */
-export function validateFileStructure(file: File, expectedSheet: string, requiredColumns: string[]): Promise<boolean> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        if (!workbook.SheetNames.includes(expectedSheet)) {
-          reject(new Error(`Required sheet "${expectedSheet}" not found`));
-          return;
-        }
-        
-        const worksheet = workbook.Sheets[expectedSheet];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        if (jsonData.length === 0) {
-          reject(new Error('File is empty'));
-          return;
-        }
-        
-        const headers = jsonData[0] as string[];
-        const missingColumns = requiredColumns.filter(col => !headers.includes(col));
-        
-        if (missingColumns.length > 0) {
-          reject(new Error(`Missing required columns: ${missingColumns.join(', ')}`));
-          return;
-        }
-        
-        resolve(true);
-      } catch (error) {
-        reject(new Error(`File validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    };
-    
-    reader.onerror = () => {
-      reject(new Error('Failed to read file for validation'));
-    };
-    
-    reader.readAsArrayBuffer(file);
-  });
+export async function validateFileStructure(
+  file: File,
+  fileType: ReportType,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE,
+  sheetName?: string
+): Promise<boolean> {
+  let source: SpreadsheetSource;
+  try {
+    source = await readSpreadsheet(file);
+  } catch (error) {
+    throw new Error(`File validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const mapping = profile.reports[fileType];
+  const { sheetName: readSheetName, rows: jsonData } = getSheetRows(source, mapping, sheetName);
+
+  if (jsonData.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  const headers = jsonData[0].map(header => String(header ?? '').trim()).filter(header => header !== '');
+  const { missing } = resolveColumns(headers, mapping, FILE_VALIDATION_REQUIREMENTS[fileType].requiredColumns);
+
+  if (missing.length > 0) {
+    throw new MissingColumnsError(missing, headers, readSheetName, source.sheetNames);
+  }
+
+  return true;
 }
 
 /**
- * Get file validation requirements for each file type
+ * Get file validation requirements for each file type.
+ * Sheet names and columns are canonical; the mapping profile supplies aliases.
  */
-export const FILE_VALIDATION_REQUIREMENTS = {
+export const FILE_VALIDATION_REQUIREMENTS: Record<ReportType, { sheetName: string; requiredColumns: string[] }> = {
   opportunities: {
     sheetName: 'Opportunities',
     requiredColumns: ['Date', 'Job', 'Customer', 'Status', 'Opportunity Owner', 'Revenue']
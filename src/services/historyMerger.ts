@@ -0,0 +1,191 @@
+import type {
+  ProcessedOpportunity,
+  ProcessedLineItem,
+  ProcessedJobTime,
+  ProcessedAppointment,
+  ReportType,
+  MergeConflict,
+  FieldChange
+} from '../types';
+import { extractTechnicianNames, extractJobIds, type IntegratedData } from './dataIntegrator';
+import { toDateInputValue } from '../utils/dateHelpers';
+
+type MergeableRecord = ProcessedOpportunity | ProcessedLineItem | ProcessedJobTime | ProcessedAppointment;
+
+/**
+ * Natural key per report; records sharing a key describe the same real-world row.
+ * Line items are keyed on the parsed invoice day, so the same row matches whether
+ * it arrived as an Excel date, CSV text or with a time of day.
+ */
+export const NATURAL_KEYS = {
+  opportunities: (opp: ProcessedOpportunity) => `${opp.jobId}|${opp.technician}`,
+  lineItems: (item: ProcessedLineItem) =>
+    `${item.jobId}|${item.lineItem}|${item.invoiceDate ? toDateInputValue(item.invoiceDate) : ''}`,
+  jobTimes: (job: ProcessedJobTime) => `${job.jobId}|${job.technician}`,
+  appointments: (appt: ProcessedAppointment) => appt.appointmentId
+};
+
+/**
+ * Comparable form of a field value (dates by instant)
+ */
+function comparableValue(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Field-level differences between two versions of a record, ignoring where they came from
+ */
+function diffRecords(previous: MergeableRecord, current: MergeableRecord): FieldChange[] {
+  const previousFields = previous as unknown as Record<string, unknown>;
+  const currentFields = current as unknown as Record<string, unknown>;
+
+  return Object.keys(currentFields)
+    .filter(field => field !== 'source')
+    .filter(field => comparableValue(previousFields[field]) !== comparableValue(currentFields[field]))
+    .map(field => ({ field, previous: previousFields[field], current: currentFields[field] }));
+}
+
+/**
+ * Content signature of a record, used to tell restatements from identical re-uploads
+ */
+function recordSignature(record: MergeableRecord): string {
+  const fields = record as unknown as Record<string, unknown>;
+  return JSON.stringify(
+    Object.keys(fields)
+      .filter(field => field !== 'source')
+      .sort()
+      .map(field => [field, comparableValue(fields[field])])
+  );
+}
+
+/**
+ * Group records by natural key, keeping file order within a key
+ */
+function groupByKey<T>(records: T[], getKey: (record: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  records.forEach(record => {
+    const key = getKey(record);
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Merge one report's records into the history. All rows of a key in the new
+ * upload replace all rows of that key in the history (last upload wins), so
+ * an export listing the same line item twice keeps both rows.
+ */
+function mergeReport<T extends MergeableRecord>(
+  report: ReportType,
+  history: T[],
+  incoming: T[],
+  getKey: (record: T) => string,
+  resolvedAt: Date
+): { records: T[]; conflicts: MergeConflict[] } {
+  const incomingByKey = groupByKey(incoming, getKey);
+  const historyByKey = groupByKey(history, getKey);
+  const conflicts: MergeConflict[] = [];
+
+  incomingByKey.forEach((currentRows, key) => {
+    const previousRows = historyByKey.get(key);
+    if (!previousRows) return;
+
+    // Re-uploading identical rows is not a restatement
+    const previousSignatures = previousRows.map(recordSignature).sort();
+    const currentSignatures = currentRows.map(recordSignature).sort();
+    if (previousSignatures.join('\n') === currentSignatures.join('\n')) return;
+
+    // Field-level detail when one row replaces one row; otherwise the row count changed
+    const changes = previousRows.length === 1 && currentRows.length === 1
+      ? diffRecords(previousRows[0], currentRows[0])
+      : [{ field: 'rows', previous: previousRows.length, current: currentRows.length }];
+
+    conflicts.push({
+      report,
+      key,
+      technician: currentRows[0].technician,
+      jobId: currentRows[0].jobId,
+      previousSource: previousRows[0].source,
+      currentSource: currentRows[0].source,
+      changes,
+      resolvedAt
+    });
+  });
+
+  const records = [
+    ...history.filter(record => !incomingByKey.has(getKey(record))),
+    ...incoming
+  ];
+
+  return { records, conflicts };
+}
+
+/**
+ * Append a newly processed upload to the cumulative history, deduplicating by
+ * natural key with last-upload-wins and logging every restated record.
+ * Rejected rows from a re-uploaded file name are replaced by the new upload's.
+ */
+export function mergeIntegratedData(
+  history: IntegratedData,
+  incoming: IntegratedData,
+  resolvedAt: Date = new Date()
+): IntegratedData {
+  const opportunities = mergeReport('opportunities', history.opportunities, incoming.opportunities, NATURAL_KEYS.opportunities, resolvedAt);
+  const lineItems = mergeReport('lineItems', history.lineItems, incoming.lineItems, NATURAL_KEYS.lineItems, resolvedAt);
+  const jobTimes = mergeReport('jobTimes', history.jobTimes, incoming.jobTimes, NATURAL_KEYS.jobTimes, resolvedAt);
+  const appointments = mergeReport('appointments', history.appointments, incoming.appointments, NATURAL_KEYS.appointments, resolvedAt);
+
+  const incomingFiles = new Set(
+    [...incoming.opportunities, ...incoming.lineItems, ...incoming.jobTimes, ...incoming.appointments, ...incoming.rejectedRows]
+      .map(record => record.source.file)
+  );
+
+  return {
+    opportunities: opportunities.records,
+    lineItems: lineItems.records,
+    jobTimes: jobTimes.records,
+    appointments: appointments.records,
+    technicianNames: extractTechnicianNames(opportunities.records, lineItems.records, jobTimes.records, appointments.records),
+    jobIds: extractJobIds(opportunities.records, lineItems.records, jobTimes.records, appointments.records),
+    rejectedRows: [
+      ...history.rejectedRows.filter(rejected => !incomingFiles.has(rejected.source.file)),
+      ...incoming.rejectedRows
+    ],
+    // Datasets saved before history merging have no conflict log
+    conflicts: [
+      ...(history.conflicts ?? []),
+      ...opportunities.conflicts,
+      ...lineItems.conflicts,
+      ...jobTimes.conflicts,
+      ...appointments.conflicts
+    ]
+  };
+}
+
+/**
+ * Flatten the conflict log into CSV rows (header first) for download
+ */
+export function getConflictLogTable(conflicts: MergeConflict[]): unknown[][] {
+  return [
+    ['Resolved At', 'Report', 'Key', 'Technician', 'Job', 'Field', 'Previous', 'Current', 'Previous File', 'Previous Row', 'Current File', 'Current Row'],
+    ...conflicts.flatMap(conflict => conflict.changes.map(change => [
+      conflict.resolvedAt,
+      conflict.report,
+      conflict.key,
+      conflict.technician,
+      conflict.jobId,
+      change.field,
+      change.previous,
+      change.current,
+      conflict.previousSource.file,
+      conflict.previousSource.row,
+      conflict.currentSource.file,
+      conflict.currentSource.row
+    ]))
+  ];
+}
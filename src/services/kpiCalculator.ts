@@ -3,171 +3,111 @@ import type {
   ProcessedLineItem,
   ProcessedJobTime,
   ProcessedAppointment,
-  TechnicianKPIs
+  TechnicianKPIs,
+  TechnicianRecords,
+  KPIDefinition,
+  Job,
+  PeriodType,
+  ReportingPeriod,
+  KPIComparison,
+  KPIRecordRow,
+  PerformanceScore,
+  ReportType
 } from '../types';
-import { isDateInWeekRange } from '../utils/dateHelpers';
-import { 
-  getHydroJettingKeywords, 
-  getDescalingKeywords, 
-  getWaterHeaterKeywords,
-  containsServiceKeywords 
-} from '../utils/formatters';
+import { computeKPIs, formatKPILabel, hasKPIData } from './kpiRegistry';
+import { buildJobLedger, type IntegratedData } from './dataIntegrator';
+import { isDateInRange, shiftPeriod, getSamePeriodLastYear } from '../utils/dateHelpers';
 
 /**
- * Calculate all KPIs for a technician within a specific week range
+ * Number of periods in a KPI comparison's history, including the selected one
  */
-export function calculateTechnicianKPIs(
+export const COMPARISON_HISTORY_LENGTH = 8;
+
+/**
+ * A technician's records within a reporting period.
+ * Jobs are the reconciled ledger jobs dated within the period.
+ */
+function getTechnicianRecords(
   technician: string,
   opportunities: ProcessedOpportunity[],
   lineItems: ProcessedLineItem[],
   jobTimes: ProcessedJobTime[],
   appointments: ProcessedAppointment[],
-  weekStart: Date,
-  weekEnd: Date
-): TechnicianKPIs {
-  // Filter data for the specific technician and week range
-  const techOpportunities = opportunities.filter(
-    opp => opp.technician === technician && isDateInWeekRange(opp.date, weekStart, weekEnd)
-  );
-  
-  const techLineItems = lineItems.filter(
-    item => item.technician === technician && isDateInWeekRange(item.invoiceDate, weekStart, weekEnd)
-  );
-  
-  const techJobTimes = jobTimes.filter(
-    job => job.technician === technician && isDateInWeekRange(job.firstAppointment, weekStart, weekEnd)
-  );
-  
-  const techAppointments = appointments.filter(
-    appt => appt.technician === technician && isDateInWeekRange(appt.scheduledFor, weekStart, weekEnd)
-  );
-
-  // Calculate KPIs
-  const averageTicketValue = calculateAverageTicketValue(techOpportunities, techAppointments);
-  const jobCloseRate = calculateJobCloseRate(techOpportunities);
-  const weeklyRevenue = calculateWeeklyRevenue(techOpportunities, techAppointments);
-  const jobEfficiency = calculateJobEfficiency(techJobTimes);
-  const membershipWinRate = calculateMembershipWinRate(techOpportunities);
-  const hydroJettingJobsSold = calculateHydroJettingJobsSold(techLineItems);
-  const descalingJobsSold = calculateDescalingJobsSold(techLineItems);
-  const waterHeaterJobsSold = calculateWaterHeaterJobsSold(techLineItems);
-
+  jobs: Job[],
+  period: { start: Date; end: Date }
+): TechnicianRecords {
   return {
     technician,
-    averageTicketValue,
-    jobCloseRate,
-    weeklyRevenue,
-    jobEfficiency,
-    membershipWinRate,
-    hydroJettingJobsSold,
-    descalingJobsSold,
-    waterHeaterJobsSold
+    jobs: jobs.filter(job => job.technicians.includes(technician)),
+    opportunities: opportunities.filter(
+      opp => opp.technician === technician && isDateInRange(opp.date, period.start, period.end)
+    ),
+    lineItems: lineItems.filter(
+      item => item.technician === technician && isDateInRange(item.invoiceDate, period.start, period.end)
+    ),
+    jobTimes: jobTimes.filter(
+      job => job.technician === technician && isDateInRange(job.firstAppointment, period.start, period.end)
+    ),
+    appointments: appointments.filter(
+      appt => appt.technician === technician && isDateInRange(appt.scheduledFor, period.start, period.end)
+    )
   };
 }
 
 /**
- * Calculate Average Ticket Value: Total Revenue ÷ Number of Completed Jobs
+ * Calculate all KPIs for a technician within a reporting period.
+ * Jobs are the reconciled ledger jobs dated within the period.
  */
-function calculateAverageTicketValue(
-  opportunities: ProcessedOpportunity[],
-  appointments: ProcessedAppointment[]
-): number {
-  // Get completed jobs (Won opportunities + Completed appointments)
-  const completedJobs = opportunities.filter(opp => opp.status === 'Won').length +
-                       appointments.filter(appt => appt.apptStatus === 'Completed').length;
-  
-  if (completedJobs === 0) return 0;
-  
-  // Calculate total revenue from both sources
-  const totalRevenue = opportunities.reduce((sum, opp) => sum + opp.revenue, 0) +
-                      appointments.reduce((sum, appt) => sum + appt.revenue, 0);
-  
-  return totalRevenue / completedJobs;
-}
-
-/**
- * Calculate Job Close Rate: (Jobs Won ÷ Total Opportunities) × 100
- */
-function calculateJobCloseRate(opportunities: ProcessedOpportunity[]): number {
-  if (opportunities.length === 0) return 0;
-  
-  const wonJobs = opportunities.filter(opp => opp.status === 'Won').length;
-  return (wonJobs / opportunities.length) * 100;
-}
-
-/**
- * Calculate Weekly Revenue: Sum of all revenue for technician
- */
-function calculateWeeklyRevenue(
+export function calculateTechnicianKPIs(
+  technician: string,
   opportunities: ProcessedOpportunity[],
-  appointments: ProcessedAppointment[]
-): number {
-  const opportunitiesRevenue = opportunities.reduce((sum, opp) => sum + opp.revenue, 0);
-  const appointmentsRevenue = appointments.reduce((sum, appt) => sum + appt.revenue, 0);
-  
-  return opportunitiesRevenue + appointmentsRevenue;
-}
-
-/**
- * Calculate Job Efficiency: Average of individual job efficiency percentages
- */
-function calculateJobEfficiency(jobTimes: ProcessedJobTime[]): number {
-  const validEfficiencies = jobTimes
-    .filter(job => job.jobEfficiency > 0)
-    .map(job => job.jobEfficiency);
-  
-  if (validEfficiencies.length === 0) return 0;
-  
-  const sum = validEfficiencies.reduce((total, efficiency) => total + efficiency, 0);
-  return sum / validEfficiencies.length;
-}
-
-/**
- * Calculate Membership Win Rate: (Memberships Sold ÷ Membership Opportunities) × 100
- */
-function calculateMembershipWinRate(opportunities: ProcessedOpportunity[]): number {
-  const membershipOpportunities = opportunities.filter(opp => opp.membershipOpportunity);
-  
-  if (membershipOpportunities.length === 0) return 0;
-  
-  const membershipsSold = membershipOpportunities.filter(opp => opp.membershipSold).length;
-  return (membershipsSold / membershipOpportunities.length) * 100;
-}
+  lineItems: ProcessedLineItem[],
+  jobTimes: ProcessedJobTime[],
+  appointments: ProcessedAppointment[],
+  jobs: Job[],
+  period: { start: Date; end: Date },
+  registry: KPIDefinition[]
+): TechnicianKPIs {
+  const records = getTechnicianRecords(technician, opportunities, lineItems, jobTimes, appointments, jobs, period);
 
-/**
- * Calculate Hydro Jetting Jobs Sold: Count of line items containing hydro jetting services
- */
-function calculateHydroJettingJobsSold(lineItems: ProcessedLineItem[]): number {
-  const keywords = getHydroJettingKeywords();
-  return lineItems.filter(item => containsServiceKeywords(item.lineItem, keywords)).length;
+  // Calculate every registered KPI
+  return {
+    technician,
+    ...computeKPIs(registry, records)
+  };
 }
 
 /**
- * Calculate Descaling Jobs Sold: Count of line items containing descaling services
+ * The records behind one technician's KPI value in a reporting period, for drilling into the number
  */
-function calculateDescalingJobsSold(lineItems: ProcessedLineItem[]): number {
-  const keywords = getDescalingKeywords();
-  return lineItems.filter(item => containsServiceKeywords(item.lineItem, keywords)).length;
-}
+export function getKPIRecordRows(
+  data: IntegratedData,
+  technician: string,
+  kpi: KPIDefinition,
+  period: { start: Date; end: Date },
+  revenuePrecedence: ReportType[]
+): KPIRecordRow[] {
+  const ledger = buildJobLedger(data.opportunities, data.lineItems, data.jobTimes, data.appointments, revenuePrecedence);
+  const jobs = ledger.filter(job => isDateInRange(job.date, period.start, period.end));
 
-/**
- * Calculate Water Heater Jobs Sold: Count of line items containing water heater services
- */
-function calculateWaterHeaterJobsSold(lineItems: ProcessedLineItem[]): number {
-  const keywords = getWaterHeaterKeywords();
-  return lineItems.filter(item => containsServiceKeywords(item.lineItem, keywords)).length;
+  return kpi.drilldown(
+    getTechnicianRecords(technician, data.opportunities, data.lineItems, data.jobTimes, data.appointments, jobs, period)
+  );
 }
 
 /**
- * Calculate KPIs for all technicians
+ * Calculate KPIs for all technicians over any reporting period (a day, week,
+ * month, custom range...). The job ledger may span more than the period;
+ * only jobs dated within it are counted.
  */
 export function calculateAllTechnicianKPIs(
   opportunities: ProcessedOpportunity[],
   lineItems: ProcessedLineItem[],
   jobTimes: ProcessedJobTime[],
   appointments: ProcessedAppointment[],
-  weekStart: Date,
-  weekEnd: Date
+  ledger: Job[],
+  period: { start: Date; end: Date },
+  registry: KPIDefinition[]
 ): TechnicianKPIs[] {
   // Get unique technician names from all data sources
   const technicianNames = new Set<string>();
@@ -176,6 +116,9 @@ export function calculateAllTechnicianKPIs(
   lineItems.forEach(item => technicianNames.add(item.technician));
   jobTimes.forEach(job => technicianNames.add(job.technician));
   appointments.forEach(appt => technicianNames.add(appt.technician));
+
+  const jobs = ledger.filter(job => isDateInRange(job.date, period.start, period.end));
+  jobs.forEach(job => job.technicians.forEach(technician => technicianNames.add(technician)));
   
   // Calculate KPIs for each technician
   return Array.from(technicianNames).map(technician =>
@@ -185,22 +128,106 @@ export function calculateAllTechnicianKPIs(
       lineItems,
       jobTimes,
       appointments,
-      weekStart,
-      weekEnd
+      jobs,
+      period,
+      registry
     )
   );
 }
 
 /**
- * Get KPI thresholds for color coding
+ * KPIs of the technicians with records in a period, keyed by technician
  */
-export const KPI_THRESHOLDS = {
-  averageTicketValue: { good: 1000, warning: 500 },
-  jobCloseRate: { good: 80, warning: 60 },
-  weeklyRevenue: { good: 5000, warning: 2500 },
-  jobEfficiency: { good: 75, warning: 50 },
-  membershipWinRate: { good: 50, warning: 25 },
-  hydroJettingJobsSold: { good: 3, warning: 1 },
-  descalingJobsSold: { good: 2, warning: 1 },
-  waterHeaterJobsSold: { good: 2, warning: 1 }
-}; 
\ No newline at end of file
+function calculateKPIsInPeriod(
+  opportunities: ProcessedOpportunity[],
+  lineItems: ProcessedLineItem[],
+  jobTimes: ProcessedJobTime[],
+  appointments: ProcessedAppointment[],
+  ledger: Job[],
+  period: { start: Date; end: Date },
+  registry: KPIDefinition[]
+): Map<string, TechnicianKPIs> {
+  const inPeriod = (date: Date | null) => isDateInRange(date, period.start, period.end);
+  const technicians = calculateAllTechnicianKPIs(
+    opportunities.filter(opp => inPeriod(opp.date)),
+    lineItems.filter(item => inPeriod(item.invoiceDate)),
+    jobTimes.filter(job => inPeriod(job.firstAppointment)),
+    appointments.filter(appt => inPeriod(appt.scheduledFor)),
+    ledger,
+    period,
+    registry
+  );
+
+  return new Map(technicians.map(technician => [technician.technician, technician]));
+}
+
+/**
+ * Calculate KPIs for all technicians in a reporting period, each with its value in
+ * the previous equivalent period, the same period last year and the most recent periods.
+ * onProgress is called after each period is calculated with the share of periods done.
+ */
+export function calculateTechnicianKPIsWithComparisons(
+  opportunities: ProcessedOpportunity[],
+  lineItems: ProcessedLineItem[],
+  jobTimes: ProcessedJobTime[],
+  appointments: ProcessedAppointment[],
+  ledger: Job[],
+  period: ReportingPeriod,
+  registry: KPIDefinition[],
+  onProgress?: (fraction: number) => void
+): TechnicianKPIs[] {
+  // Earlier periods, last year's and the selected one
+  const totalPeriods = COMPARISON_HISTORY_LENGTH + 1;
+  let calculatedPeriods = 0;
+  const kpisIn = (comparedPeriod: { start: Date; end: Date }) => {
+    const kpis = calculateKPIsInPeriod(opportunities, lineItems, jobTimes, appointments, ledger, comparedPeriod, registry);
+    onProgress?.(++calculatedPeriods / totalPeriods);
+    return kpis;
+  };
+
+  // Earlier periods, oldest first; a week period starts on the first day of the week
+  const earlier = Array.from({ length: COMPARISON_HISTORY_LENGTH - 1 }, (_, index) =>
+    kpisIn(shiftPeriod(period, index - (COMPARISON_HISTORY_LENGTH - 1), period.start.getDay()))
+  );
+  const lastYear = kpisIn(getSamePeriodLastYear(period));
+
+  const technicians = calculateAllTechnicianKPIs(opportunities, lineItems, jobTimes, appointments, ledger, period, registry);
+  onProgress?.(1);
+
+  return technicians
+    .map(technician => {
+      // A rate without a denominator has no value to compare against
+      const valueOf = (kpis: TechnicianKPIs | undefined, kpi: KPIDefinition) =>
+        kpis && hasKPIData(kpi, kpis.samples[kpi.id]) ? kpis.kpis[kpi.id] ?? null : null;
+
+      const comparisons = Object.fromEntries(registry.map(kpi => {
+        const comparison: KPIComparison = {
+          previous: valueOf(earlier[earlier.length - 1].get(technician.technician), kpi),
+          lastYear: valueOf(lastYear.get(technician.technician), kpi),
+          history: [...earlier.map(kpis => valueOf(kpis.get(technician.technician), kpi)), valueOf(technician, kpi)]
+        };
+        return [kpi.id, comparison];
+      }));
+
+      return { ...technician, comparisons };
+    });
+}
+
+/**
+ * Flatten technician KPIs into CSV rows (header first) for download
+ */
+export function getKPITable(
+  technicians: TechnicianKPIs[],
+  registry: KPIDefinition[],
+  periodType: PeriodType,
+  scores: Map<string, PerformanceScore>
+): unknown[][] {
+  return [
+    ['Technician', ...registry.map(kpi => formatKPILabel(kpi, periodType)), 'Performance Score'],
+    ...technicians.map(technician => [
+      technician.technician,
+      ...registry.map(kpi => hasKPIData(kpi, technician.samples[kpi.id]) ? technician.kpis[kpi.id] ?? 0 : ''),
+      scores.get(technician.technician)?.score ?? 0
+    ])
+  ];
+}
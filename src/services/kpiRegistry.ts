@@ -0,0 +1,431 @@
+import type {
+  KPIDefinition,
+  KPIRecordRole,
+  KPIRecordRow,
+  KPIResult,
+  KPISample,
+  KPIThresholds,
+  Job,
+  ProcessedOpportunity,
+  ProcessedLineItem,
+  ProcessedJobTime,
+  ServiceCategoryRule,
+  PeriodType,
+  TechnicianKPIs,
+  TechnicianRecords
+} from '../types';
+import { getPeriodAdjective } from '../utils/dateHelpers';
+import { formatHours } from '../utils/formatters';
+import { getJobRevenueRows } from './dataIntegrator';
+import {
+  countBookedServiceCategory,
+  countServiceCategory,
+  createServiceCategoryMatcher,
+  describeServiceCategory
+} from './serviceCategories';
+
+/**
+ * Rate KPIs based on fewer records than this are shown without good/poor coloring
+ */
+export const MIN_RATE_SAMPLE_SIZE = 5;
+
+// z-score of a 95% confidence interval
+const CONFIDENCE_Z = 1.96;
+
+/**
+ * Result of a rate; no value when the denominator is zero
+ */
+function rateResult(numerator: number, denominator: number, sampleSize: number, scale = 1): KPIResult {
+  return { value: denominator > 0 ? (numerator / denominator) * scale : 0, numerator, denominator, sampleSize };
+}
+
+/**
+ * Result of a total or count
+ */
+function totalResult(value: number, sampleSize: number): KPIResult {
+  return { value, numerator: value, denominator: 1, sampleSize };
+}
+
+/**
+ * Revenue credited to a technician across ledger jobs
+ */
+function sumTechnicianRevenue(jobs: Job[], technician: string): number {
+  return jobs.reduce((sum, job) => sum + (job.revenueByTechnician[technician] ?? 0), 0);
+}
+
+/**
+ * Calculate Average Ticket Value: Revenue of completed jobs ÷ Number of completed jobs
+ */
+function calculateAverageTicketValue(jobs: Job[], technician: string): KPIResult {
+  // Completed jobs whose revenue is credited to the technician
+  const completedJobs = jobs.filter(job => job.completed && technician in job.revenueByTechnician);
+
+  return rateResult(sumTechnicianRevenue(completedJobs, technician), completedJobs.length, completedJobs.length);
+}
+
+/**
+ * Calculate Job Close Rate: (Jobs Won ÷ Total Opportunities) × 100
+ */
+function calculateJobCloseRate(opportunities: ProcessedOpportunity[]): KPIResult {
+  const wonJobs = opportunities.filter(opp => opp.status === 'Won').length;
+  return rateResult(wonJobs, opportunities.length, opportunities.length, 100);
+}
+
+/**
+ * Calculate Period Revenue: Sum of ledger revenue credited to the technician, each job counted once
+ */
+function calculatePeriodRevenue(jobs: Job[], technician: string): KPIResult {
+  const creditedJobs = jobs.filter(job => technician in job.revenueByTechnician);
+  return totalResult(sumTechnicianRevenue(creditedJobs, technician), creditedJobs.length);
+}
+
+/**
+ * Sum of a time field across jobs, in hours
+ */
+function sumHours(jobTimes: ProcessedJobTime[], field: 'soldTime' | 'totalTime'): number {
+  return jobTimes.reduce((sum, job) => sum + job[field], 0) / 60;
+}
+
+/**
+ * Calculate Job Efficiency: (Sold Time ÷ Total Time) × 100 across jobs, so long jobs weigh more than short ones.
+ * Jobs with no sold time are left out unless includeZeroEfficiencyJobs is set.
+ */
+function calculateJobEfficiency(jobTimes: ProcessedJobTime[], includeZeroEfficiencyJobs: boolean): KPIResult {
+  const counted = jobTimes.filter(job => includeZeroEfficiencyJobs || job.jobEfficiency > 0);
+  const totalHours = sumHours(counted, 'totalTime');
+
+  // Exports without the time columns only carry the per-job percentage
+  if (totalHours === 0) {
+    const efficiencySum = counted.reduce((sum, job) => sum + job.jobEfficiency, 0);
+    return rateResult(efficiencySum, counted.length, counted.length);
+  }
+
+  return rateResult(sumHours(counted, 'soldTime'), totalHours, counted.length, 100);
+}
+
+/**
+ * Calculate Sold Hours Utilization: (Sold Hours ÷ Hours on all jobs) × 100, including jobs with nothing sold
+ */
+function calculateSoldHoursUtilization(jobTimes: ProcessedJobTime[]): KPIResult {
+  return rateResult(sumHours(jobTimes, 'soldTime'), sumHours(jobTimes, 'totalTime'), jobTimes.length, 100);
+}
+
+/**
+ * Calculate Revenue per Labor Hour: Ledger revenue credited to the technician ÷ Hours on jobs
+ */
+function calculateRevenuePerLaborHour(jobs: Job[], jobTimes: ProcessedJobTime[], technician: string): KPIResult {
+  return rateResult(sumTechnicianRevenue(jobs, technician), sumHours(jobTimes, 'totalTime'), jobTimes.length);
+}
+
+/**
+ * Calculate Membership Win Rate: (Memberships Sold ÷ Membership Opportunities) × 100
+ */
+function calculateMembershipWinRate(opportunities: ProcessedOpportunity[]): KPIResult {
+  const membershipOpportunities = opportunities.filter(opp => opp.membershipOpportunity);
+  const membershipsSold = membershipOpportunities.filter(opp => opp.membershipSold).length;
+
+  return rateResult(membershipsSold, membershipOpportunities.length, membershipOpportunities.length, 100);
+}
+
+/**
+ * Drill-down row of an opportunity, whose amount is its revenue
+ */
+function opportunityRow(opp: ProcessedOpportunity, role: KPIRecordRole): KPIRecordRow {
+  return {
+    report: 'opportunities',
+    record: opp,
+    date: opp.date,
+    jobId: opp.jobId,
+    detail: `${opp.status} • ${opp.customer}`,
+    amount: opp.revenue,
+    amountUnit: 'currency',
+    role
+  };
+}
+
+/**
+ * Drill-down row of a job time, whose amount is its sold hours
+ */
+function jobTimeRow(job: ProcessedJobTime, role: KPIRecordRole, reason?: string): KPIRecordRow {
+  return {
+    report: 'jobTimes',
+    record: job,
+    date: job.firstAppointment,
+    jobId: job.jobId,
+    detail: `${formatHours(job.soldTime / 60)} sold of ${formatHours(job.totalTime / 60)} • ${job.customer}`,
+    amount: job.soldTime / 60,
+    amountUnit: 'hours',
+    role,
+    reason
+  };
+}
+
+/**
+ * Drill-down row of a line item, whose amount is its quantity
+ */
+function lineItemRow(item: ProcessedLineItem, role: KPIRecordRole, reason?: string): KPIRecordRow {
+  return {
+    report: 'lineItems',
+    record: item,
+    date: item.invoiceDate,
+    jobId: item.jobId,
+    detail: item.lineItem,
+    amount: item.quantity,
+    amountUnit: 'count',
+    role,
+    reason
+  };
+}
+
+/**
+ * Drill-down rows of the revenue source rows crediting a technician on each job
+ */
+function revenueRows(jobs: Job[], technician: string, role: KPIRecordRole, reason?: string): KPIRecordRow[] {
+  return jobs.flatMap(job => getJobRevenueRows(job, technician).map(row => ({
+    report: row.report,
+    record: row.record,
+    date: row.date,
+    jobId: job.jobId,
+    detail: `Job revenue • ${row.record.customer}`,
+    amount: row.revenue,
+    amountUnit: 'currency' as const,
+    role,
+    reason
+  })));
+}
+
+/**
+ * Line items behind a service category count: matched items, plus the ones left out
+ * by exclude keywords or because their job was already counted
+ */
+function getServiceCategoryRows(lineItems: ProcessedLineItem[], rule: ServiceCategoryRule): KPIRecordRow[] {
+  const matches = createServiceCategoryMatcher(rule);
+  const matchesWithoutExcludes = createServiceCategoryMatcher({ ...rule, exclude: [] });
+  const countedJobs = new Set<string>();
+
+  return lineItems.flatMap(item => {
+    if (!matches(item)) {
+      return matchesWithoutExcludes(item) ? [lineItemRow(item, 'excluded', 'Matches an exclude keyword')] : [];
+    }
+    if (rule.countMode === 'jobs') {
+      if (countedJobs.has(item.jobId)) return [lineItemRow(item, 'excluded', 'Job already counted')];
+      countedJobs.add(item.jobId);
+    }
+    return [lineItemRow(item, 'numerator')];
+  });
+}
+
+/**
+ * Core KPIs in display order. Adding a KPI here adds it to the calculator,
+ * technician cards, trend charts, exports and score.
+ */
+function createCoreKPIs(includeZeroEfficiencyJobs: boolean): KPIDefinition[] {
+  return [
+    {
+      id: 'weeklyRevenue',
+      label: '{period} Revenue',
+      unit: 'currency',
+      description: 'Total revenue of jobs in the selected period, each job counted once',
+      sources: ['opportunities', 'appointments', 'jobTimes', 'lineItems'],
+      compute: ({ jobs, technician }) => calculatePeriodRevenue(jobs, technician),
+      drilldown: ({ jobs, technician }) => revenueRows(jobs, technician, 'numerator'),
+      thresholds: { good: 5000, warning: 2500 },
+      scoreTarget: 10000,
+      summary: true,
+      cumulative: true,
+      booked: (pendingAppointments) => pendingAppointments.reduce((sum, appt) => sum + appt.revenue, 0)
+    },
+    {
+      id: 'jobCloseRate',
+      label: 'Job Close Rate',
+      unit: 'percentage',
+      description: 'Percentage of opportunities that resulted in won jobs',
+      sources: ['opportunities'],
+      compute: ({ opportunities }) => calculateJobCloseRate(opportunities),
+      drilldown: ({ opportunities }) =>
+        opportunities.map(opp => opportunityRow(opp, opp.status === 'Won' ? 'numerator' : 'denominator')),
+      rate: 'proportion',
+      thresholds: { good: 80, warning: 60 },
+      scoreTarget: 100,
+      summary: true
+    },
+    {
+      id: 'jobEfficiency',
+      label: 'Job Efficiency',
+      unit: 'percentage',
+      description: includeZeroEfficiencyJobs
+        ? 'Sold hours divided by hours on jobs, all jobs included'
+        : 'Sold hours divided by hours on jobs, leaving out jobs with no sold time',
+      sources: ['jobTimes'],
+      compute: ({ jobTimes }) => calculateJobEfficiency(jobTimes, includeZeroEfficiencyJobs),
+      drilldown: ({ jobTimes }) => jobTimes.map(job => {
+        if (!includeZeroEfficiencyJobs && !(job.jobEfficiency > 0)) return jobTimeRow(job, 'excluded', 'No sold time');
+        return jobTimeRow(job, job.soldTime > 0 ? 'numerator' : 'denominator');
+      }),
+      rate: 'ratio',
+      thresholds: { good: 75, warning: 50 },
+      scoreTarget: 100,
+      summary: true
+    },
+    {
+      id: 'averageTicketValue',
+      label: 'Average Ticket Value',
+      unit: 'currency',
+      description: 'Revenue of completed jobs divided by number of completed jobs',
+      sources: ['opportunities', 'appointments', 'jobTimes', 'lineItems'],
+      compute: ({ jobs, technician }) => calculateAverageTicketValue(jobs, technician),
+      drilldown: ({ jobs, technician }) => [
+        ...revenueRows(jobs.filter(job => job.completed), technician, 'numerator'),
+        ...revenueRows(jobs.filter(job => !job.completed), technician, 'excluded', 'Job not completed')
+      ],
+      rate: 'ratio',
+      thresholds: { good: 1000, warning: 500 },
+      scoreTarget: 2000
+    },
+    {
+      id: 'membershipWinRate',
+      label: 'Membership Win Rate',
+      unit: 'percentage',
+      description: 'Percentage of membership opportunities that were sold',
+      sources: ['opportunities'],
+      compute: ({ opportunities }) => calculateMembershipWinRate(opportunities),
+      drilldown: ({ opportunities }) => opportunities
+        .filter(opp => opp.membershipOpportunity)
+        .map(opp => opportunityRow(opp, opp.membershipSold ? 'numerator' : 'denominator')),
+      rate: 'proportion',
+      thresholds: { good: 50, warning: 25 },
+      scoreTarget: 100
+    },
+    {
+      id: 'soldHoursUtilization',
+      label: 'Sold Hours Utilization',
+      unit: 'percentage',
+      description: 'Sold hours as a share of all hours on jobs, including jobs where nothing was sold',
+      sources: ['jobTimes'],
+      compute: ({ jobTimes }) => calculateSoldHoursUtilization(jobTimes),
+      drilldown: ({ jobTimes }) => jobTimes.map(job => jobTimeRow(job, job.soldTime > 0 ? 'numerator' : 'denominator')),
+      rate: 'ratio',
+      thresholds: { good: 70, warning: 50 },
+      scoreTarget: 100
+    },
+    {
+      id: 'revenuePerLaborHour',
+      label: 'Revenue per Labor Hour',
+      unit: 'currency',
+      description: 'Revenue of jobs in the period divided by hours on jobs',
+      sources: ['opportunities', 'appointments', 'jobTimes', 'lineItems'],
+      compute: ({ jobs, jobTimes, technician }) => calculateRevenuePerLaborHour(jobs, jobTimes, technician),
+      drilldown: ({ jobs, jobTimes, technician }) => [
+        ...revenueRows(jobs, technician, 'numerator'),
+        ...jobTimes.map(job => ({ ...jobTimeRow(job, 'denominator'), amount: job.totalTime / 60 }))
+      ],
+      rate: 'ratio',
+      thresholds: { good: 200, warning: 120 },
+      scoreTarget: 300
+    }
+  ];
+}
+
+/**
+ * KPI counting the sales of one service category
+ */
+function createServiceCategoryKPI(rule: ServiceCategoryRule): KPIDefinition {
+  return {
+    id: rule.id,
+    label: rule.label,
+    unit: 'count',
+    description: describeServiceCategory(rule),
+    sources: ['lineItems'],
+    compute: ({ lineItems }) => totalResult(countServiceCategory(lineItems, rule), lineItems.length),
+    drilldown: ({ lineItems }) => getServiceCategoryRows(lineItems, rule),
+    thresholds: rule.thresholds,
+    scoreTarget: rule.scoreTarget,
+    cumulative: true,
+    booked: (pendingAppointments) => countBookedServiceCategory(pendingAppointments, rule)
+  };
+}
+
+/**
+ * Full KPI registry: the core KPIs followed by one KPI per service category rule
+ */
+export function buildKPIRegistry(serviceCategories: ServiceCategoryRule[], includeZeroEfficiencyJobs: boolean): KPIDefinition[] {
+  return [...createCoreKPIs(includeZeroEfficiencyJobs), ...serviceCategories.map(createServiceCategoryKPI)];
+}
+
+/**
+ * KPI name for a kind of period; "{period}" in a label becomes e.g. "Weekly" or "Monthly"
+ */
+export function formatKPILabel(kpi: KPIDefinition, periodType: PeriodType): string {
+  return kpi.label.replace('{period}', getPeriodAdjective(periodType));
+}
+
+/**
+ * A KPI's score target for a period. Targets of cumulative KPIs are weekly totals,
+ * so they are scaled by the period's length in working weeks.
+ */
+export function getKPIScoreTarget(kpi: KPIDefinition, periodWeeks: number): number {
+  return kpi.cumulative ? kpi.scoreTarget * periodWeeks : kpi.scoreTarget;
+}
+
+/**
+ * A KPI's thresholds for a period. Thresholds of cumulative KPIs are weekly totals,
+ * scaled like score targets; rates are the same for any period.
+ */
+export function scaleKPIThresholds(kpi: KPIDefinition, thresholds: KPIThresholds, periodWeeks: number): KPIThresholds {
+  return kpi.cumulative
+    ? { good: thresholds.good * periodWeeks, warning: thresholds.warning * periodWeeks }
+    : thresholds;
+}
+
+/**
+ * Calculate every registered KPI from a set of records, with the sample behind each value
+ */
+export function computeKPIs(registry: KPIDefinition[], records: TechnicianRecords): Pick<TechnicianKPIs, 'kpis' | 'samples'> {
+  const results = registry.map(kpi => [kpi.id, kpi.compute(records)] as const);
+  return {
+    kpis: Object.fromEntries(results.map(([id, { value }]) => [id, value])),
+    samples: Object.fromEntries(results.map(([id, { numerator, denominator, sampleSize }]) => [id, { numerator, denominator, sampleSize }]))
+  };
+}
+
+/**
+ * Whether a KPI has a value: rates need a non-zero denominator, totals and counts always have one
+ */
+export function hasKPIData(kpi: KPIDefinition, sample: KPISample | undefined): boolean {
+  return !kpi.rate || (sample?.denominator ?? 0) > 0;
+}
+
+/**
+ * Whether a rate KPI rests on too few records to be judged good or poor
+ */
+export function isLowSampleKPI(kpi: KPIDefinition, sample: KPISample | undefined): boolean {
+  return Boolean(kpi.rate) && (sample?.sampleSize ?? 0) < MIN_RATE_SAMPLE_SIZE;
+}
+
+/**
+ * Wilson score interval of a proportion, as 0-1 bounds
+ */
+export function getWilsonInterval(successes: number, trials: number, z = CONFIDENCE_Z): { lower: number; upper: number } | null {
+  if (trials <= 0) return null;
+
+  const proportion = successes / trials;
+  const zSquared = z * z;
+  const center = proportion + zSquared / (2 * trials);
+  const margin = z * Math.sqrt((proportion * (1 - proportion) + zSquared / (4 * trials)) / trials);
+  const divisor = 1 + zSquared / trials;
+
+  return {
+    lower: Math.max(0, (center - margin) / divisor),
+    upper: Math.min(1, (center + margin) / divisor)
+  };
+}
+
+/**
+ * 95% confidence interval of a proportion KPI in its display unit (percent), or null for other KPIs
+ */
+export function getKPIConfidenceInterval(kpi: KPIDefinition, sample: KPISample | undefined): { lower: number; upper: number } | null {
+  if (kpi.rate !== 'proportion' || !sample) return null;
+
+  const interval = getWilsonInterval(sample.numerator, sample.denominator);
+  return interval && { lower: interval.lower * 100, upper: interval.upper * 100 };
+}
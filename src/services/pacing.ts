@@ -0,0 +1,104 @@
+import type {
+  CalendarSettings,
+  KPIDefinition,
+  ProcessedAppointment,
+  ReportingPeriod,
+  TechnicianKPIs
+} from '../types';
+import { addDays, endOfDay, startOfDay, toZonedWallTime } from '../utils/dateHelpers';
+
+/**
+ * How far through its working days a reporting period is
+ */
+export interface PeriodPacing {
+  asOf: Date; // last instant of the latest elapsed day
+  elapsedDays: number; // working days elapsed, counting the as-of day
+  totalDays: number; // working days in the period
+  inProgress: boolean; // today falls within the period
+}
+
+/**
+ * A cumulative KPI's projected end-of-period value
+ */
+export interface KPIProjection {
+  actual: number;
+  runRate: number; // the value so far scaled up to every working day of the period
+  booked: number; // the value so far plus what booked pending appointments are expected to add
+  projected: number; // the higher of the two, used to judge whether the technician is on pace
+}
+
+/**
+ * Number of working days between two dates, counting both
+ */
+export function countWorkingDays(start: Date, end: Date, workingDays: number[]): number {
+  let count = 0;
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    if (workingDays.includes(day.getDay())) count++;
+  }
+  return count;
+}
+
+/**
+ * Length of a period in working weeks, used to scale the weekly targets of cumulative KPIs.
+ * A period without working days (e.g. a Saturday) is measured in calendar days instead.
+ */
+export function getPeriodWeeks(period: ReportingPeriod, calendar: CalendarSettings): number {
+  const workingDays = countWorkingDays(period.start, period.end, calendar.workingDays);
+  if (workingDays > 0) return workingDays / calendar.workingDays.length;
+
+  return countWorkingDays(period.start, period.end, [0, 1, 2, 3, 4, 5, 6]) / 7;
+}
+
+/**
+ * Working days elapsed in a period as of today in the business time zone.
+ * Today counts as elapsed; past periods are complete and future ones not started.
+ */
+export function getPeriodPacing(period: ReportingPeriod, calendar: CalendarSettings, now: Date = new Date()): PeriodPacing {
+  const today = startOfDay(toZonedWallTime(now, calendar.timeZone));
+  const totalDays = countWorkingDays(period.start, period.end, calendar.workingDays);
+
+  if (today > period.end) {
+    return { asOf: period.end, elapsedDays: totalDays, totalDays, inProgress: false };
+  }
+  if (today < period.start) {
+    return { asOf: period.start, elapsedDays: 0, totalDays, inProgress: false };
+  }
+
+  return {
+    asOf: endOfDay(today),
+    elapsedDays: countWorkingDays(period.start, today, calendar.workingDays),
+    totalDays,
+    inProgress: true
+  };
+}
+
+/**
+ * Project a technician's cumulative KPIs to the end of the period, from their run
+ * rate and from their pending appointments booked for the rest of the period.
+ * KPIs that are rates rather than totals are not projected.
+ */
+export function projectTechnicianKPIs(
+  technician: TechnicianKPIs,
+  appointments: ProcessedAppointment[],
+  registry: KPIDefinition[],
+  period: ReportingPeriod,
+  pacing: PeriodPacing
+): Record<string, KPIProjection> {
+  const pendingAppointments = appointments.filter(appt =>
+    appt.technician === technician.technician &&
+    appt.apptStatus === 'Pending' &&
+    appt.scheduledFor !== null &&
+    appt.scheduledFor > pacing.asOf &&
+    appt.scheduledFor <= period.end
+  );
+  // Before the first working day there is no pace to extrapolate from
+  const scale = pacing.elapsedDays > 0 ? pacing.totalDays / pacing.elapsedDays : 1;
+
+  return Object.fromEntries(registry.filter(kpi => kpi.cumulative).map(kpi => {
+    const actual = technician.kpis[kpi.id] ?? 0;
+    const runRate = actual * scale;
+    const booked = actual + (kpi.booked?.(pendingAppointments) ?? 0);
+    const projection: KPIProjection = { actual, runRate, booked, projected: Math.max(runRate, booked) };
+    return [kpi.id, projection];
+  }));
+}
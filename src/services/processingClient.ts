@@ -0,0 +1,168 @@
+import type { KPISettings, ProcessingProgress, ReportingPeriod, TechnicianKPIs, UploadedFiles } from '../types';
+import type { IntegratedData, ProcessingOptions } from './dataIntegrator';
+import type { WorkerRequest, WorkerResponse } from '../workers/protocol';
+
+/**
+ * Raised when a processing request is superseded or cancelled
+ */
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Processing was cancelled');
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+// Longest the worker may go without a progress message or result before it is stopped
+const PROCESSING_TIMEOUT_MS = 60_000;
+
+/**
+ * Raised when the worker makes no progress for too long
+ */
+export class ProcessingTimeoutError extends Error {
+  constructor() {
+    super(`Processing made no progress for ${PROCESSING_TIMEOUT_MS / 1000} seconds and was stopped`);
+    this.name = 'ProcessingTimeoutError';
+  }
+}
+
+// Worker requests before a request id is assigned
+type WorkerRequestPayload =
+  | Omit<Extract<WorkerRequest, { type: 'process' }>, 'requestId'>
+  | Omit<Extract<WorkerRequest, { type: 'calculate' }>, 'requestId'>;
+
+interface PendingRequest {
+  requestId: number;
+  timer: ReturnType<typeof setTimeout>;
+  onProgress?: (progress: ProcessingProgress) => void;
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let pending: PendingRequest | null = null;
+let nextRequestId = 1;
+
+/**
+ * Stop waiting for the in-flight request and return it
+ */
+function takePending(): PendingRequest | null {
+  const current = pending;
+  pending = null;
+  if (current) clearTimeout(current.timer);
+  return current;
+}
+
+/**
+ * Stop the worker and fail the request if it does not respond in time.
+ * Restarted on every progress message, so only a stalled worker is stopped.
+ */
+function startTimeout(requestId: number): ReturnType<typeof setTimeout> {
+  return setTimeout(() => {
+    if (pending?.requestId !== requestId) return;
+
+    const current = takePending();
+    worker?.terminate();
+    worker = null;
+    current?.reject(new ProcessingTimeoutError());
+  }, PROCESSING_TIMEOUT_MS);
+}
+
+/**
+ * Get the processing worker, starting one if needed
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (!pending || response.requestId !== pending.requestId) return;
+
+      if (response.type === 'progress') {
+        clearTimeout(pending.timer);
+        pending.timer = startTimeout(pending.requestId);
+        pending.onProgress?.(response.progress);
+        return;
+      }
+
+      const { resolve, reject } = takePending()!;
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+      } else {
+        resolve(response);
+      }
+    };
+
+    worker.onerror = (event) => {
+      const current = takePending();
+      current?.reject(new Error(event.message || 'Processing worker failed'));
+    };
+  }
+
+  return worker;
+}
+
+/**
+ * Cancel the in-flight request. Parsing is synchronous inside the worker, so
+ * the worker is terminated and a fresh one is started on the next request.
+ */
+export function cancelProcessing(): void {
+  const current = takePending();
+  if (!current) return;
+
+  worker?.terminate();
+  worker = null;
+  current.reject(new ProcessingCancelledError());
+}
+
+/**
+ * Send a request to the worker; a new request cancels the previous one
+ */
+function sendRequest(
+  request: WorkerRequestPayload,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<WorkerResponse> {
+  cancelProcessing();
+
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending = { requestId, timer: startTimeout(requestId), onProgress, resolve, reject };
+    const message: WorkerRequest = { ...request, requestId };
+    getWorker().postMessage(message);
+  });
+}
+
+/**
+ * Parse, clean and integrate the uploaded files, append them to the history
+ * when one is given, and calculate KPIs in the worker
+ */
+export async function processFilesInWorker(
+  files: UploadedFiles,
+  options: ProcessingOptions,
+  history: IntegratedData | null,
+  period: ReportingPeriod,
+  settings: KPISettings,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<{ data: IntegratedData; technicians: TechnicianKPIs[] }> {
+  const response = await sendRequest({ type: 'process', files, options, history, period, settings }, onProgress);
+  if (response.type !== 'processed') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return { data: response.data, technicians: response.technicians };
+}
+
+/**
+ * Recalculate KPIs for already integrated data in the worker
+ */
+export async function calculateKPIsInWorker(
+  data: IntegratedData,
+  period: ReportingPeriod,
+  settings: KPISettings,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<TechnicianKPIs[]> {
+  const response = await sendRequest({ type: 'calculate', data, period, settings }, onProgress);
+  if (response.type !== 'calculated') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.technicians;
+}
@@ -0,0 +1,144 @@
+import type { ColumnMappingProfile, ReportSheetNames, ReportType, UploadedFiles } from '../types';
+import { FILE_VALIDATION_REQUIREMENTS, readSpreadsheet } from './fileParser';
+import { DEFAULT_MAPPING_PROFILE, normalizeHeader, resolveColumns } from './columnMapping';
+
+/**
+ * A report recognized inside a file
+ */
+export interface ReportDetection {
+  reportType: ReportType;
+  sheetName: string;
+  confidence: number; // 0-1
+  matchedColumns: number;
+  requiredColumns: number;
+}
+
+/**
+ * A dropped file with its detected reports and the user's override
+ */
+export interface DetectedFile {
+  id: string;
+  file: File;
+  detections: ReportDetection[];
+  override: ReportType | 'auto' | 'ignore';
+}
+
+/**
+ * Minimum confidence for a detection to fill a slot automatically
+ */
+export const MIN_DETECTION_CONFIDENCE = 0.5;
+
+const REPORT_TYPES = Object.keys(FILE_VALIDATION_REQUIREMENTS) as ReportType[];
+
+// Share of the confidence score carried by a matching sheet name; headers carry the rest
+const SHEET_NAME_WEIGHT = 0.3;
+
+/**
+ * Score how well a sheet matches a report: sheet name plus required header coverage
+ */
+function scoreSheet(
+  sheetName: string,
+  headers: unknown[],
+  reportType: ReportType,
+  profile: ColumnMappingProfile,
+  hasSheetNames: boolean
+): ReportDetection {
+  const mapping = profile.reports[reportType];
+  const requiredColumns = FILE_VALIDATION_REQUIREMENTS[reportType].requiredColumns;
+  const { missing } = resolveColumns(headers, mapping, requiredColumns);
+  const matchedColumns = requiredColumns.length - missing.length;
+  const headerScore = matchedColumns / requiredColumns.length;
+
+  // CSV/TSV exports have no sheet names, so headers alone decide
+  const confidence = hasSheetNames
+    ? (normalizeHeader(sheetName) === normalizeHeader(mapping.sheetName) ? SHEET_NAME_WEIGHT : 0) +
+      headerScore * (1 - SHEET_NAME_WEIGHT)
+    : headerScore;
+
+  return {
+    reportType,
+    sheetName,
+    confidence,
+    matchedColumns,
+    requiredColumns: requiredColumns.length
+  };
+}
+
+/**
+ * Classify which reports a file contains by checking each sheet's name and
+ * headers against FILE_VALIDATION_REQUIREMENTS. Each sheet counts toward its
+ * best-matching report only, so a workbook holding several report sheets
+ * yields several detections. Results are sorted by confidence.
+ */
+export async function detectReportTypes(
+  file: File,
+  profile: ColumnMappingProfile = DEFAULT_MAPPING_PROFILE
+): Promise<ReportDetection[]> {
+  const source = await readSpreadsheet(file);
+  const hasSheetNames = source.format === 'excel';
+  const bestByReport = new Map<ReportType, ReportDetection>();
+
+  source.sheetNames.forEach(sheetName => {
+    const headers = source.getHeaderRow(sheetName);
+    const scores = REPORT_TYPES
+      .map(reportType => scoreSheet(sheetName, headers, reportType, profile, hasSheetNames))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const best = scores[0];
+    const current = bestByReport.get(best.reportType);
+    if (best.confidence > 0 && (!current || best.confidence > current.confidence)) {
+      bestByReport.set(best.reportType, best);
+    }
+  });
+
+  return Array.from(bestByReport.values()).sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Get the report slots a dropped file fills, honoring the manual override
+ */
+export function getAssignedReports(detectedFile: DetectedFile): ReportType[] {
+  if (detectedFile.override === 'ignore') return [];
+  if (detectedFile.override !== 'auto') return [detectedFile.override];
+
+  return detectedFile.detections
+    .filter(detection => detection.confidence >= MIN_DETECTION_CONFIDENCE)
+    .map(detection => detection.reportType);
+}
+
+/**
+ * Fill the four report slots from dropped files; later drops win a contested slot
+ */
+export function assignFilesToReports(detectedFiles: DetectedFile[]): UploadedFiles {
+  const files: UploadedFiles = {
+    opportunities: null,
+    lineItems: null,
+    jobTimes: null,
+    appointments: null
+  };
+
+  detectedFiles.forEach(detectedFile => {
+    getAssignedReports(detectedFile).forEach(reportType => {
+      files[reportType] = detectedFile.file;
+    });
+  });
+
+  return files;
+}
+
+/**
+ * Sheet each filled report slot was detected on, so parsing reads that sheet
+ * even when its name differs from the mapping profile's. A manual override
+ * uses the file's detection for that report, if it has one.
+ */
+export function assignSheetsToReports(detectedFiles: DetectedFile[]): ReportSheetNames {
+  const sheetNames: ReportSheetNames = {};
+
+  detectedFiles.forEach(detectedFile => {
+    getAssignedReports(detectedFile).forEach(reportType => {
+      sheetNames[reportType] = detectedFile.detections.find(detection => detection.reportType === reportType)?.sheetName;
+    });
+  });
+
+  return sheetNames;
+}
@@ -0,0 +1,112 @@
+import type {
+  ProcessedOpportunity,
+  ProcessedLineItem,
+  ProcessedJobTime,
+  ProcessedAppointment,
+  TechnicianRecords,
+  GroupKPIs,
+  KPIDefinition,
+  Job,
+  ReportType,
+  Team
+} from '../types';
+import { buildJobLedger, type IntegratedData } from './dataIntegrator';
+import { COMPANY_GROUP_NAME, UNASSIGNED_TEAM_NAME } from './teams';
+import { computeKPIs } from './kpiRegistry';
+import { isDateInRange } from '../utils/dateHelpers';
+
+/**
+ * A ledger job as seen by a group: revenue credited to any member is credited
+ * to the group, so a job shared by two members counts once
+ */
+function toGroupJob(job: Job, group: string, members: Set<string>): Job {
+  const memberShares = Object.entries(job.revenueByTechnician).filter(([technician]) => members.has(technician));
+
+  return {
+    ...job,
+    technicians: [group],
+    revenueByTechnician: memberShares.length > 0
+      ? { [group]: memberShares.reduce((sum, [, revenue]) => sum + revenue, 0) }
+      : {}
+  };
+}
+
+/**
+ * Calculate KPIs for a group of technicians from their pooled records. Ratio KPIs
+ * divide the group's total numerator by its total denominator, so every record
+ * weighs the same instead of every technician.
+ */
+export function calculateGroupKPIs(
+  group: string,
+  members: string[],
+  opportunities: ProcessedOpportunity[],
+  lineItems: ProcessedLineItem[],
+  jobTimes: ProcessedJobTime[],
+  appointments: ProcessedAppointment[],
+  ledger: Job[],
+  period: { start: Date; end: Date },
+  registry: KPIDefinition[]
+): GroupKPIs {
+  const memberSet = new Set(members);
+  const inPeriod = (date: Date | null) => isDateInRange(date, period.start, period.end);
+
+  // The group stands in for the technician, so every KPI definition applies unchanged
+  const records: TechnicianRecords = {
+    technician: group,
+    jobs: ledger
+      .filter(job => inPeriod(job.date) && job.technicians.some(technician => memberSet.has(technician)))
+      .map(job => toGroupJob(job, group, memberSet)),
+    opportunities: opportunities.filter(opp => memberSet.has(opp.technician) && inPeriod(opp.date)),
+    lineItems: lineItems.filter(item => memberSet.has(item.technician) && inPeriod(item.invoiceDate)),
+    jobTimes: jobTimes.filter(job => memberSet.has(job.technician) && inPeriod(job.firstAppointment)),
+    appointments: appointments.filter(appt => memberSet.has(appt.technician) && inPeriod(appt.scheduledFor))
+  };
+
+  return {
+    group,
+    members,
+    ...computeKPIs(registry, records)
+  };
+}
+
+/**
+ * Company rollup of the given technicians, followed by one rollup per team with
+ * active members and, when teams are defined, one for technicians without a team
+ */
+export function calculateRollups(
+  data: IntegratedData,
+  technicians: string[],
+  teams: Team[],
+  period: { start: Date; end: Date },
+  registry: KPIDefinition[],
+  revenuePrecedence: ReportType[]
+): GroupKPIs[] {
+  const ledger = buildJobLedger(data.opportunities, data.lineItems, data.jobTimes, data.appointments, revenuePrecedence);
+  const rollup = (group: string, members: string[]) => calculateGroupKPIs(
+    group,
+    members,
+    data.opportunities,
+    data.lineItems,
+    data.jobTimes,
+    data.appointments,
+    ledger,
+    period,
+    registry
+  );
+
+  const active = new Set(technicians);
+  const groups = [{ group: COMPANY_GROUP_NAME, members: technicians }];
+
+  teams.forEach(team => {
+    const members = team.members.filter(member => active.has(member));
+    if (members.length > 0) groups.push({ group: team.name, members });
+  });
+
+  if (teams.length > 0) {
+    const assigned = new Set(teams.flatMap(team => team.members));
+    const unassigned = technicians.filter(technician => !assigned.has(technician));
+    if (unassigned.length > 0) groups.push({ group: UNASSIGNED_TEAM_NAME, members: unassigned });
+  }
+
+  return groups.map(({ group, members }) => rollup(group, members));
+}
@@ -0,0 +1,175 @@
+import type {
+  KPIDefinition,
+  KPIScoreSetting,
+  PerformanceScore,
+  ScoreContribution,
+  ScoreNormalization,
+  ScoringModel,
+  Team,
+  TechnicianKPIs
+} from '../types';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+import { getTechnicianTeam } from './teams';
+import { getKPIScoreTarget, hasKPIData, isLowSampleKPI } from './kpiRegistry';
+
+const SCORING_MODEL_STORAGE_KEY = 'scoring-model';
+
+export const SCORE_NORMALIZATIONS: { value: ScoreNormalization; label: string; description: string }[] = [
+  { value: 'target', label: 'Target', description: 'Percent of the KPI\'s score target, up to the cap' },
+  { value: 'minMax', label: 'Min / max', description: 'Position between the lowest and highest technician in the team' },
+  { value: 'percentile', label: 'Percentile', description: 'Share of the team the technician outperforms' }
+];
+
+/**
+ * Setting for KPIs the user has not configured: equal weight, scored against the target up to 100%
+ */
+export const DEFAULT_SCORE_SETTING: KPIScoreSetting = { weight: 1, normalization: 'target', cap: 100 };
+
+/**
+ * The score setting of a KPI, falling back to the default
+ */
+export function getKPIScoreSetting(model: ScoringModel, kpiId: string): KPIScoreSetting {
+  return model[kpiId] ?? DEFAULT_SCORE_SETTING;
+}
+
+/**
+ * Problems that would make a score setting meaningless; empty when valid
+ */
+export function validateScoreSetting(setting: KPIScoreSetting): string[] {
+  const errors: string[] = [];
+
+  if (!(setting.weight >= 0)) {
+    errors.push('Weight cannot be negative');
+  }
+  if (!(setting.cap >= 100)) {
+    errors.push('The cap must be at least 100% of the target');
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize a KPI value to 0-1 (or above 1 up to the cap for target scoring).
+ * A technician without peers to compare with gets full marks for any activity.
+ */
+function normalizeKPIValue(
+  value: number,
+  peerValues: number[],
+  kpi: KPIDefinition,
+  setting: KPIScoreSetting,
+  periodWeeks: number
+): number {
+  switch (setting.normalization) {
+    case 'minMax': {
+      const min = Math.min(...peerValues);
+      const max = Math.max(...peerValues);
+      if (max === min) return value > 0 ? 1 : 0;
+      return (value - min) / (max - min);
+    }
+    case 'percentile': {
+      if (peerValues.length <= 1) return value > 0 ? 1 : 0;
+      const below = peerValues.filter(peer => peer < value).length;
+      // Ties share the rank; the technician's own value is one of the ties
+      const tied = peerValues.filter(peer => peer === value).length - 1;
+      return (below + tied / 2) / (peerValues.length - 1);
+    }
+    default:
+      return Math.max(0, Math.min(value / getKPIScoreTarget(kpi, periodWeeks), setting.cap / 100));
+  }
+}
+
+/**
+ * Whether a technician's KPI has enough data to be scored: rates with no records,
+ * or too few to judge, are shown as N/A and left out of the score
+ */
+function isScorable(technician: TechnicianKPIs, kpi: KPIDefinition): boolean {
+  const sample = technician.samples[kpi.id];
+  return hasKPIData(kpi, sample) && !isLowSampleKPI(kpi, sample);
+}
+
+/**
+ * Calculate a technician's weighted performance score with the points each KPI
+ * contributed. KPIs without enough data are skipped and the remaining weights
+ * renormalized. Peers are the technicians min/max and percentile scoring compare
+ * against and must include the technician. The period's length in working weeks
+ * scales the targets of cumulative KPIs.
+ */
+export function calculatePerformanceScore(
+  technician: TechnicianKPIs,
+  peers: TechnicianKPIs[],
+  registry: KPIDefinition[],
+  model: ScoringModel,
+  periodWeeks: number = 1
+): PerformanceScore {
+  const scored = registry
+    .map(kpi => ({ kpi, setting: getKPIScoreSetting(model, kpi.id) }))
+    .filter(({ kpi, setting }) => setting.weight > 0 && isScorable(technician, kpi));
+  const totalWeight = scored.reduce((sum, { setting }) => sum + setting.weight, 0);
+
+  if (totalWeight === 0) return { score: 0, contributions: [] };
+
+  const contributions: ScoreContribution[] = scored.map(({ kpi, setting }) => {
+    const value = technician.kpis[kpi.id] ?? 0;
+    const peerValues = peers.filter(peer => isScorable(peer, kpi)).map(peer => peer.kpis[kpi.id] ?? 0);
+    const normalized = normalizeKPIValue(value, peerValues, kpi, setting, periodWeeks);
+
+    return {
+      kpiId: kpi.id,
+      value,
+      normalized,
+      weight: setting.weight,
+      points: (setting.weight / totalWeight) * normalized * 100
+    };
+  });
+
+  const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+  return { score: Math.round(Math.min(total, 100)), contributions };
+}
+
+/**
+ * Performance scores of all technicians, keyed by technician. Each technician is
+ * compared with their team, or with every technician when they have no team.
+ */
+export function calculatePerformanceScores(
+  technicians: TechnicianKPIs[],
+  registry: KPIDefinition[],
+  model: ScoringModel,
+  teams: Team[],
+  periodWeeks: number = 1
+): Map<string, PerformanceScore> {
+  return new Map(technicians.map(technician => {
+    const team = getTechnicianTeam(teams, technician.technician);
+    const peers = team ? technicians.filter(peer => team.members.includes(peer.technician)) : technicians;
+    return [technician.technician, calculatePerformanceScore(technician, peers, registry, model, periodWeeks)];
+  }));
+}
+
+/**
+ * Whether a stored value has the shape of a score setting
+ */
+function isScoreSetting(value: unknown): value is KPIScoreSetting {
+  const setting = value as KPIScoreSetting;
+  return typeof setting === 'object' && setting !== null &&
+    typeof setting.weight === 'number' &&
+    typeof setting.cap === 'number' &&
+    SCORE_NORMALIZATIONS.some(normalization => normalization.value === setting.normalization);
+}
+
+/**
+ * Load the saved scoring model; KPIs without a saved setting use the default
+ */
+export function loadScoringModel(): ScoringModel {
+  const saved = loadFromStorage<unknown>(SCORING_MODEL_STORAGE_KEY, {});
+  if (typeof saved !== 'object' || saved === null) return {};
+
+  return Object.fromEntries(
+    Object.entries(saved).filter(([, setting]) => isScoreSetting(setting) && validateScoreSetting(setting).length === 0)
+  );
+}
+
+/**
+ * Remember the scoring model for future sessions
+ */
+export function saveScoringModel(model: ScoringModel): void {
+  saveToStorage(SCORING_MODEL_STORAGE_KEY, model);
+}
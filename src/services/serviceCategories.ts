@@ -0,0 +1,319 @@
+import type { ProcessedAppointment, ProcessedLineItem, ServiceCategoryRule, ServiceCountMode } from '../types';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+import { containsServiceKeywords } from '../utils/formatters';
+
+const SERVICE_CATEGORIES_STORAGE_KEY = 'service-categories';
+
+export const SERVICE_COUNT_MODES: { value: ServiceCountMode; label: string }[] = [
+  { value: 'lineItems', label: 'Count line items' },
+  { value: 'quantity', label: 'Sum quantity' },
+  { value: 'jobs', label: 'Count distinct jobs' }
+];
+
+/**
+ * Built-in service categories, used until the user saves their own rules
+ */
+export const DEFAULT_SERVICE_CATEGORIES: ServiceCategoryRule[] = [
+  {
+    id: 'hydroJettingJobsSold',
+    label: 'Hydro Jetting Jobs',
+    field: 'lineItem',
+    include: ['hydro', 'jetting', 'high pressure'],
+    exclude: ['pressure wash'],
+    pattern: '',
+    countMode: 'lineItems',
+    thresholds: { good: 3, warning: 1 },
+    scoreTarget: 10
+  },
+  {
+    id: 'descalingJobsSold',
+    label: 'Descaling Jobs',
+    field: 'lineItem',
+    include: ['descal', 'scale removal'],
+    exclude: [],
+    pattern: '',
+    countMode: 'lineItems',
+    thresholds: { good: 2, warning: 1 },
+    scoreTarget: 5
+  },
+  {
+    id: 'waterHeaterJobsSold',
+    label: 'Water Heater Jobs',
+    field: 'lineItem',
+    include: ['water heater', 'heater install', 'heater replacement'],
+    exclude: ['tankless'],
+    pattern: '',
+    countMode: 'lineItems',
+    thresholds: { good: 2, warning: 1 },
+    scoreTarget: 5
+  },
+  {
+    id: 'tanklessJobsSold',
+    label: 'Tankless Water Heater Jobs',
+    field: 'lineItem',
+    include: ['tankless'],
+    exclude: [],
+    pattern: '',
+    countMode: 'lineItems',
+    thresholds: { good: 2, warning: 1 },
+    scoreTarget: 3
+  },
+  {
+    id: 'sewerCameraJobsSold',
+    label: 'Sewer Camera Inspections',
+    field: 'lineItem',
+    include: ['camera', 'video inspection'],
+    exclude: [],
+    pattern: '',
+    countMode: 'jobs',
+    thresholds: { good: 3, warning: 1 },
+    scoreTarget: 10
+  },
+  {
+    id: 'repipeJobsSold',
+    label: 'Repipe Jobs',
+    field: 'lineItem',
+    include: [],
+    exclude: [],
+    pattern: '\\bre-?pip(e|es|ing)\\b',
+    countMode: 'jobs',
+    thresholds: { good: 2, warning: 1 },
+    scoreTarget: 3
+  }
+];
+
+/**
+ * Whether a group's alternatives are plain words starting with different letters,
+ * like "(e|ing|s)". Only one of them can match at any position, so repeating
+ * the group cannot backtrack.
+ */
+function isDisjointLiteralAlternation(body: string): boolean {
+  const alternatives = body.replace(/^\?:/, '').split('|');
+  const firstLetters = alternatives.map(alternative => alternative[0]?.toLowerCase());
+  return alternatives.every(alternative => /^[\w -]+$/.test(alternative)) &&
+    new Set(firstLetters).size === alternatives.length;
+}
+
+/**
+ * Whether a pattern repeats a group that can match the same text in more than one
+ * way: one containing a repeat or optional part, like "(a+)+" or "(\w+\s?)*", or
+ * alternatives that can overlap, like "(a|a)*" or "(\w|\d)+". Such patterns can
+ * backtrack catastrophically on long text and freeze the page or processing.
+ */
+function hasAmbiguousRepeat(pattern: string): boolean {
+  // Per open group: where it starts, whether it contains a repeat or optional part, and whether it has alternatives
+  const groups: { start: number; repeats: boolean; alternation: boolean }[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const previous = pattern[i - 1];
+    const group = groups[groups.length - 1];
+
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ start: i, repeats: false, alternation: false });
+    } else if (char === '|') {
+      if (group) group.alternation = true;
+    } else if (char === ')') {
+      groups.pop();
+      if (!group) continue;
+
+      const ambiguous = group.repeats ||
+        (group.alternation && !isDisjointLiteralAlternation(pattern.slice(group.start + 1, i)));
+      const next = pattern[i + 1];
+      if (ambiguous && (next === '*' || next === '+' || next === '{')) return true;
+      if (ambiguous && groups.length > 0) groups[groups.length - 1].repeats = true;
+    } else if (
+      char === '*' || char === '+' ||
+      (char === '{' && /^\{\d+,\}/.test(pattern.slice(i))) ||
+      // "?" after "(" opens a special group and after a quantifier makes it lazy
+      (char === '?' && previous !== '(' && !'*+?}'.includes(previous))
+    ) {
+      if (group) group.repeats = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Compile a rule's regular expression, or null when it has none.
+ * Throws for invalid expressions and ones that could backtrack catastrophically.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!pattern.trim()) return null;
+  if (hasAmbiguousRepeat(pattern.trim())) {
+    throw new Error('Ambiguous repeat');
+  }
+  return new RegExp(pattern.trim(), 'i');
+}
+
+/**
+ * Problems that would stop a rule from working as intended; empty when valid
+ */
+export function validateServiceCategoryRule(rule: ServiceCategoryRule): string[] {
+  const errors: string[] = [];
+
+  if (!rule.label.trim()) {
+    errors.push('Name is required');
+  }
+  if (rule.include.length === 0 && !rule.pattern.trim()) {
+    errors.push('Add at least one include keyword or a regular expression');
+  }
+  if (hasAmbiguousRepeat(rule.pattern)) {
+    errors.push(`"${rule.pattern}" repeats a group that can match the same text in several ways (like "(a+)+" or "(a|a)*"), which can freeze the dashboard; simplify it`);
+  } else {
+    try {
+      compilePattern(rule.pattern);
+    } catch {
+      errors.push(`"${rule.pattern}" is not a valid regular expression`);
+    }
+  }
+  if (rule.thresholds.warning > rule.thresholds.good) {
+    errors.push('The warning threshold cannot be above the good threshold');
+  }
+  if (!(rule.scoreTarget > 0)) {
+    errors.push('The full-score target must be greater than zero');
+  }
+
+  return errors;
+}
+
+/**
+ * Build a predicate telling whether a piece of text belongs to the category.
+ * Text matches when any include keyword or the regular expression matches
+ * and no exclude keyword does. Invalid or unsafe expressions match nothing.
+ */
+function createServiceCategoryTextMatcher(rule: ServiceCategoryRule): (text: string) => boolean {
+  let pattern: RegExp | null;
+  try {
+    pattern = compilePattern(rule.pattern);
+  } catch {
+    pattern = null;
+  }
+
+  return (text: string) => {
+    if (!text) return false;
+
+    const included = containsServiceKeywords(text, rule.include) || (pattern?.test(text) ?? false);
+    return included && !containsServiceKeywords(text, rule.exclude);
+  };
+}
+
+/**
+ * Build a predicate telling whether a line item belongs to the category, matching the rule's field
+ */
+export function createServiceCategoryMatcher(rule: ServiceCategoryRule): (item: ProcessedLineItem) => boolean {
+  const matches = createServiceCategoryTextMatcher(rule);
+  return (item: ProcessedLineItem) => matches(item[rule.field]);
+}
+
+/**
+ * Count a category's sales in the rule's count mode
+ */
+export function countServiceCategory(lineItems: ProcessedLineItem[], rule: ServiceCategoryRule): number {
+  const matched = lineItems.filter(createServiceCategoryMatcher(rule));
+
+  switch (rule.countMode) {
+    case 'quantity':
+      return matched.reduce((sum, item) => sum + item.quantity, 0);
+    case 'jobs':
+      return new Set(matched.map(item => item.jobId)).size;
+    default:
+      return matched.length;
+  }
+}
+
+/**
+ * Number of distinct jobs among booked appointments whose service category matches the rule
+ */
+export function countBookedServiceCategory(appointments: ProcessedAppointment[], rule: ServiceCategoryRule): number {
+  const matches = createServiceCategoryTextMatcher(rule);
+  return new Set(appointments.filter(appt => matches(appt.serviceCategory)).map(appt => appt.jobId)).size;
+}
+
+/**
+ * Line items a rule matched, plus the ones its exclude keywords removed, for previewing a rule
+ */
+export function getServiceCategoryPreview(
+  lineItems: ProcessedLineItem[],
+  rule: ServiceCategoryRule
+): { matched: ProcessedLineItem[]; excluded: ProcessedLineItem[]; total: number } {
+  const matches = createServiceCategoryMatcher(rule);
+  const matchesWithoutExcludes = createServiceCategoryMatcher({ ...rule, exclude: [] });
+
+  const matched = lineItems.filter(matches);
+  const excluded = lineItems.filter(item => !matches(item) && matchesWithoutExcludes(item));
+
+  return { matched, excluded, total: countServiceCategory(lineItems, rule) };
+}
+
+/**
+ * Description of what a category KPI counts
+ */
+export function describeServiceCategory(rule: ServiceCategoryRule): string {
+  switch (rule.countMode) {
+    case 'quantity':
+      return `Total quantity of ${rule.label.toLowerCase()} line items sold`;
+    case 'jobs':
+      return `Number of jobs with ${rule.label.toLowerCase()} line items sold`;
+    default:
+      return `Number of ${rule.label.toLowerCase()} line items sold`;
+  }
+}
+
+/**
+ * A blank rule for the editor
+ */
+export function createServiceCategoryRule(): ServiceCategoryRule {
+  return {
+    id: `category-${Date.now()}`,
+    label: '',
+    field: 'lineItem',
+    include: [],
+    exclude: [],
+    pattern: '',
+    countMode: 'lineItems',
+    thresholds: { good: 2, warning: 1 },
+    scoreTarget: 5
+  };
+}
+
+/**
+ * Whether a stored value has the shape of a service category rule
+ */
+function isServiceCategoryRule(value: unknown): value is ServiceCategoryRule {
+  const rule = value as ServiceCategoryRule;
+  return typeof rule === 'object' && rule !== null &&
+    typeof rule.id === 'string' &&
+    typeof rule.label === 'string' &&
+    (rule.field === 'lineItem' || rule.field === 'category') &&
+    Array.isArray(rule.include) &&
+    Array.isArray(rule.exclude) &&
+    typeof rule.pattern === 'string' &&
+    SERVICE_COUNT_MODES.some(mode => mode.value === rule.countMode) &&
+    typeof rule.thresholds?.good === 'number' &&
+    typeof rule.thresholds?.warning === 'number' &&
+    typeof rule.scoreTarget === 'number';
+}
+
+/**
+ * Load the saved service category rules, or the defaults when none are saved
+ */
+export function loadServiceCategories(): ServiceCategoryRule[] {
+  const saved = loadFromStorage<unknown>(SERVICE_CATEGORIES_STORAGE_KEY, null);
+  return Array.isArray(saved) ? saved.filter(isServiceCategoryRule) : DEFAULT_SERVICE_CATEGORIES;
+}
+
+/**
+ * Remember the service category rules for future sessions
+ */
+export function saveServiceCategories(rules: ServiceCategoryRule[]): void {
+  saveToStorage(SERVICE_CATEGORIES_STORAGE_KEY, rules);
+}
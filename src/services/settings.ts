@@ -0,0 +1,150 @@
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+import {
+  DATE_FORMATS,
+  DEFAULT_DATE_FORMAT,
+  DEFAULT_CALENDAR,
+  isValidTimeZone,
+  type DateFormat
+} from '../utils/dateHelpers';
+import { DEFAULT_REVENUE_PRECEDENCE } from './dataIntegrator';
+import type { CalendarSettings, ReportType, ResultsView } from '../types';
+
+const DATE_FORMAT_STORAGE_KEY = 'date-format';
+const CALENDAR_STORAGE_KEY = 'calendar';
+const REVENUE_PRECEDENCE_STORAGE_KEY = 'revenue-precedence';
+const COMPARE_LAST_YEAR_STORAGE_KEY = 'compare-last-year';
+const PACING_STORAGE_KEY = 'pacing';
+const INCLUDE_ZERO_EFFICIENCY_JOBS_STORAGE_KEY = 'include-zero-efficiency-jobs';
+const RESULTS_VIEW_STORAGE_KEY = 'results-view';
+const HIDDEN_TABLE_COLUMNS_STORAGE_KEY = 'hidden-table-columns';
+
+/**
+ * Load the date format used for text dates in uploaded reports
+ */
+export function loadDateFormat(): DateFormat {
+  const saved = loadFromStorage<DateFormat>(DATE_FORMAT_STORAGE_KEY, DEFAULT_DATE_FORMAT);
+  return DATE_FORMATS.includes(saved) ? saved : DEFAULT_DATE_FORMAT;
+}
+
+/**
+ * Remember the date format for future sessions
+ */
+export function saveDateFormat(format: DateFormat): void {
+  saveToStorage(DATE_FORMAT_STORAGE_KEY, format);
+}
+
+/**
+ * Load the week definition and business time zone, falling back per field when invalid
+ */
+export function loadCalendarSettings(): CalendarSettings {
+  const saved = loadFromStorage<Partial<CalendarSettings>>(CALENDAR_STORAGE_KEY, {});
+  const weekStartsOn = Number.isInteger(saved.weekStartsOn) && saved.weekStartsOn! >= 0 && saved.weekStartsOn! <= 6
+    ? saved.weekStartsOn!
+    : DEFAULT_CALENDAR.weekStartsOn;
+  const timeZone = typeof saved.timeZone === 'string' && isValidTimeZone(saved.timeZone)
+    ? saved.timeZone
+    : DEFAULT_CALENDAR.timeZone;
+  const workingDays = Array.isArray(saved.workingDays) &&
+    saved.workingDays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    ? saved.workingDays
+    : DEFAULT_CALENDAR.workingDays;
+
+  return { weekStartsOn, timeZone, workingDays };
+}
+
+/**
+ * Remember the calendar settings for future sessions
+ */
+export function saveCalendarSettings(calendar: CalendarSettings): void {
+  saveToStorage(CALENDAR_STORAGE_KEY, calendar);
+}
+
+/**
+ * Load the order reports are trusted for job revenue; must list every report exactly once
+ */
+export function loadRevenuePrecedence(): ReportType[] {
+  const saved = loadFromStorage<unknown>(REVENUE_PRECEDENCE_STORAGE_KEY, null);
+  const isComplete = Array.isArray(saved) &&
+    saved.length === DEFAULT_REVENUE_PRECEDENCE.length &&
+    DEFAULT_REVENUE_PRECEDENCE.every(report => saved.includes(report));
+
+  return isComplete ? saved as ReportType[] : DEFAULT_REVENUE_PRECEDENCE;
+}
+
+/**
+ * Remember the revenue precedence for future sessions
+ */
+export function saveRevenuePrecedence(precedence: ReportType[]): void {
+  saveToStorage(REVENUE_PRECEDENCE_STORAGE_KEY, precedence);
+}
+
+/**
+ * Load whether KPI changes are also shown against the same period last year
+ */
+export function loadCompareLastYear(): boolean {
+  return loadFromStorage<unknown>(COMPARE_LAST_YEAR_STORAGE_KEY, false) === true;
+}
+
+/**
+ * Remember the last-year comparison choice for future sessions
+ */
+export function saveCompareLastYear(compareLastYear: boolean): void {
+  saveToStorage(COMPARE_LAST_YEAR_STORAGE_KEY, compareLastYear);
+}
+
+/**
+ * Load whether jobs with no sold time count toward job efficiency
+ */
+export function loadIncludeZeroEfficiencyJobs(): boolean {
+  return loadFromStorage<unknown>(INCLUDE_ZERO_EFFICIENCY_JOBS_STORAGE_KEY, false) === true;
+}
+
+/**
+ * Remember the zero-efficiency job choice for future sessions
+ */
+export function saveIncludeZeroEfficiencyJobs(includeZeroEfficiencyJobs: boolean): void {
+  saveToStorage(INCLUDE_ZERO_EFFICIENCY_JOBS_STORAGE_KEY, includeZeroEfficiencyJobs);
+}
+
+/**
+ * Load whether KPIs in a period still in progress are judged by their projection
+ */
+export function loadPacing(): boolean {
+  return loadFromStorage<unknown>(PACING_STORAGE_KEY, false) === true;
+}
+
+/**
+ * Remember the pacing choice for future sessions
+ */
+export function savePacing(pacing: boolean): void {
+  saveToStorage(PACING_STORAGE_KEY, pacing);
+}
+
+/**
+ * Load whether technician results are shown as cards or a table
+ */
+export function loadResultsView(): ResultsView {
+  return loadFromStorage<unknown>(RESULTS_VIEW_STORAGE_KEY, 'cards') === 'table' ? 'table' : 'cards';
+}
+
+/**
+ * Remember the results view for future sessions
+ */
+export function saveResultsView(view: ResultsView): void {
+  saveToStorage(RESULTS_VIEW_STORAGE_KEY, view);
+}
+
+/**
+ * Load the columns hidden in the technician table
+ */
+export function loadHiddenTableColumns(): string[] {
+  const saved = loadFromStorage<unknown>(HIDDEN_TABLE_COLUMNS_STORAGE_KEY, []);
+  return Array.isArray(saved) ? saved.filter((column): column is string => typeof column === 'string') : [];
+}
+
+/**
+ * Remember the columns hidden in the technician table
+ */
+export function saveHiddenTableColumns(columns: string[]): void {
+  saveToStorage(HIDDEN_TABLE_COLUMNS_STORAGE_KEY, columns);
+}
@@ -0,0 +1,156 @@
+import type { KPIDefinition, KPITargetSet, KPIThresholds, TargetScope } from '../types';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+import { parseDate, toDateInputValue } from '../utils/dateHelpers';
+import { scaleKPIThresholds } from './kpiRegistry';
+
+const ROLES_STORAGE_KEY = 'technician-roles';
+const TARGET_SETS_STORAGE_KEY = 'kpi-target-sets';
+
+export const TARGET_SCOPES: { value: TargetScope; label: string }[] = [
+  { value: 'role', label: 'Role' },
+  { value: 'technician', label: 'Technician' }
+];
+
+/**
+ * A new target set effective today, overriding no KPIs yet
+ */
+export function createTargetSet(): KPITargetSet {
+  return {
+    id: `targets-${Date.now()}`,
+    name: '',
+    scope: 'role',
+    assignee: '',
+    effectiveFrom: toDateInputValue(new Date()),
+    thresholds: {}
+  };
+}
+
+/**
+ * Problems that would stop a target set from applying as intended; empty when valid
+ */
+export function validateTargetSet(targetSet: KPITargetSet, targetSets: KPITargetSet[]): string[] {
+  const errors: string[] = [];
+
+  if (!targetSet.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (!targetSet.assignee.trim()) {
+    errors.push(targetSet.scope === 'role' ? 'Choose a role' : 'Choose a technician');
+  }
+  if (!parseDate(targetSet.effectiveFrom)) {
+    errors.push('Effective date is required');
+  }
+  if (Object.values(targetSet.thresholds).some(thresholds => thresholds.warning > thresholds.good)) {
+    errors.push('A warning threshold cannot be above its good threshold');
+  }
+  const duplicate = targetSets.some(other =>
+    other.id !== targetSet.id &&
+    other.scope === targetSet.scope &&
+    other.assignee === targetSet.assignee &&
+    other.effectiveFrom === targetSet.effectiveFrom
+  );
+  if (duplicate) {
+    errors.push('Another target set for the same assignee starts on this date');
+  }
+
+  return errors;
+}
+
+/**
+ * The target set of an assignee in effect on a date: the one with the latest
+ * effective date on or before it, or null when none has started yet
+ */
+export function getEffectiveTargetSet(
+  targetSets: KPITargetSet[],
+  scope: TargetScope,
+  assignee: string,
+  date: Date
+): KPITargetSet | null {
+  const day = toDateInputValue(date);
+
+  return targetSets
+    .filter(targetSet => targetSet.scope === scope && targetSet.assignee === assignee && targetSet.effectiveFrom <= day)
+    .reduce<KPITargetSet | null>(
+      (latest, targetSet) => !latest || targetSet.effectiveFrom > latest.effectiveFrom ? targetSet : latest,
+      null
+    );
+}
+
+/**
+ * Thresholds of every KPI for a technician on a date. Per KPI, the technician's own
+ * target set wins over their role's, which wins over the KPI's default thresholds.
+ * Cumulative KPIs' thresholds are weekly and scaled to the period's length in weeks.
+ */
+export function getEffectiveThresholds(
+  technician: string,
+  registry: KPIDefinition[],
+  targetSets: KPITargetSet[],
+  roles: Record<string, string>,
+  date: Date,
+  periodWeeks: number = 1
+): Record<string, KPIThresholds> {
+  const own = getEffectiveTargetSet(targetSets, 'technician', technician, date);
+  const role = roles[technician];
+  const roleSet = role ? getEffectiveTargetSet(targetSets, 'role', role, date) : null;
+
+  return Object.fromEntries(registry.map(kpi => [
+    kpi.id,
+    scaleKPIThresholds(kpi, own?.thresholds[kpi.id] ?? roleSet?.thresholds[kpi.id] ?? kpi.thresholds, periodWeeks)
+  ]));
+}
+
+/**
+ * Distinct role names in use, sorted
+ */
+export function getRoleNames(roles: Record<string, string>): string[] {
+  return Array.from(new Set(Object.values(roles).filter(Boolean))).sort();
+}
+
+/**
+ * Load the saved technician roles
+ */
+export function loadRoles(): Record<string, string> {
+  const saved = loadFromStorage<unknown>(ROLES_STORAGE_KEY, {});
+  if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+
+  return Object.fromEntries(Object.entries(saved).filter(([, role]) => typeof role === 'string' && role));
+}
+
+/**
+ * Remember the technician roles for future sessions
+ */
+export function saveRoles(roles: Record<string, string>): void {
+  saveToStorage(ROLES_STORAGE_KEY, roles);
+}
+
+/**
+ * Whether a stored value has the shape of a target set
+ */
+function isTargetSet(value: unknown): value is KPITargetSet {
+  const targetSet = value as KPITargetSet;
+  return typeof targetSet === 'object' && targetSet !== null &&
+    typeof targetSet.id === 'string' &&
+    typeof targetSet.name === 'string' &&
+    TARGET_SCOPES.some(scope => scope.value === targetSet.scope) &&
+    typeof targetSet.assignee === 'string' &&
+    typeof targetSet.effectiveFrom === 'string' &&
+    typeof targetSet.thresholds === 'object' && targetSet.thresholds !== null &&
+    Object.values(targetSet.thresholds).every(thresholds =>
+      typeof thresholds?.good === 'number' && typeof thresholds?.warning === 'number'
+    );
+}
+
+/**
+ * Load the saved target sets; there are none until the user defines them
+ */
+export function loadTargetSets(): KPITargetSet[] {
+  const saved = loadFromStorage<unknown>(TARGET_SETS_STORAGE_KEY, []);
+  return Array.isArray(saved) ? saved.filter(isTargetSet) : [];
+}
+
+/**
+ * Remember the target sets for future sessions
+ */
+export function saveTargetSets(targetSets: KPITargetSet[]): void {
+  saveToStorage(TARGET_SETS_STORAGE_KEY, targetSets);
+}
@@ -0,0 +1,83 @@
+import type { Team } from '../types';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+
+const TEAMS_STORAGE_KEY = 'teams';
+
+export const UNASSIGNED_TEAM_NAME = 'Unassigned';
+
+// Name of the company-wide rollup row
+export const COMPANY_GROUP_NAME = 'Company';
+
+/**
+ * A new team with no members, for the editor
+ */
+export function createTeam(name: string = ''): Team {
+  return { id: `team-${Date.now()}`, name, members: [] };
+}
+
+/**
+ * Problems that would make the teams ambiguous; empty when valid
+ */
+export function validateTeams(teams: Team[]): string[] {
+  const errors: string[] = [];
+  const names = teams.map(team => team.name.trim().toLowerCase());
+
+  if (names.some(name => !name)) {
+    errors.push('Every team needs a name');
+  }
+  if (names.some((name, index) => name && names.indexOf(name) !== index)) {
+    errors.push('Team names must be unique');
+  }
+  if (names.includes(UNASSIGNED_TEAM_NAME.toLowerCase())) {
+    errors.push(`"${UNASSIGNED_TEAM_NAME}" is reserved for technicians without a team`);
+  }
+  if (names.includes(COMPANY_GROUP_NAME.toLowerCase())) {
+    errors.push(`"${COMPANY_GROUP_NAME}" is reserved for the company-wide totals`);
+  }
+
+  return errors;
+}
+
+/**
+ * The team a technician belongs to, or null when unassigned
+ */
+export function getTechnicianTeam(teams: Team[], technician: string): Team | null {
+  return teams.find(team => team.members.includes(technician)) ?? null;
+}
+
+/**
+ * Move a technician to a team (or out of every team when teamId is null)
+ */
+export function assignTechnician(teams: Team[], technician: string, teamId: string | null): Team[] {
+  return teams.map(team => {
+    const members = team.members.filter(member => member !== technician);
+    return { ...team, members: team.id === teamId ? [...members, technician] : members };
+  });
+}
+
+/**
+ * Whether a stored value has the shape of a team
+ */
+function isTeam(value: unknown): value is Team {
+  const team = value as Team;
+  return typeof team === 'object' && team !== null &&
+    typeof team.id === 'string' &&
+    typeof team.name === 'string' &&
+    Array.isArray(team.members) &&
+    team.members.every(member => typeof member === 'string');
+}
+
+/**
+ * Load the saved teams; there are none until the user defines them
+ */
+export function loadTeams(): Team[] {
+  const saved = loadFromStorage<unknown>(TEAMS_STORAGE_KEY, []);
+  return Array.isArray(saved) ? saved.filter(isTeam) : [];
+}
+
+/**
+ * Remember the teams for future sessions
+ */
+export function saveTeams(teams: Team[]): void {
+  saveToStorage(TEAMS_STORAGE_KEY, teams);
+}
@@ -0,0 +1,131 @@
+import type {
+  ProcessedOpportunity,
+  ProcessedLineItem,
+  ProcessedJobTime,
+  ProcessedAppointment,
+  TechnicianKPIs,
+  KPIDefinition,
+  ReportType
+} from '../types';
+import { buildJobLedger, type IntegratedData } from './dataIntegrator';
+import { calculateAllTechnicianKPIs } from './kpiCalculator';
+import { hasKPIData } from './kpiRegistry';
+import { getStartOfWeek, getWeeksBetween } from '../utils/dateHelpers';
+
+/**
+ * KPIs of every active technician for one week
+ */
+export interface WeeklyKPISnapshot {
+  start: Date;
+  end: Date;
+  technicians: TechnicianKPIs[];
+}
+
+/**
+ * One week of a technician's trend; null where the technician had no records that week,
+ * or none the KPI could be calculated from
+ */
+export interface TrendPoint {
+  weekStart: Date;
+  value: number | null;
+  teamMedian: number | null;
+}
+
+interface WeekBucket {
+  opportunities: ProcessedOpportunity[];
+  lineItems: ProcessedLineItem[];
+  jobTimes: ProcessedJobTime[];
+  appointments: ProcessedAppointment[];
+}
+
+/**
+ * Group records by the start of the week they fall in
+ */
+function bucketByWeek(data: IntegratedData, weekStartsOn: number): Map<number, WeekBucket> {
+  const buckets = new Map<number, WeekBucket>();
+  const getBucket = (date: Date | null): WeekBucket | null => {
+    if (!date) return null;
+    const key = getStartOfWeek(date, weekStartsOn).getTime();
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { opportunities: [], lineItems: [], jobTimes: [], appointments: [] };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  data.opportunities.forEach(opp => getBucket(opp.date)?.opportunities.push(opp));
+  data.lineItems.forEach(item => getBucket(item.invoiceDate)?.lineItems.push(item));
+  data.jobTimes.forEach(job => getBucket(job.firstAppointment)?.jobTimes.push(job));
+  data.appointments.forEach(appt => getBucket(appt.scheduledFor)?.appointments.push(appt));
+
+  return buckets;
+}
+
+/**
+ * Calculate KPIs week by week across the whole date range of the data.
+ * Weeks without records are included with no technicians, so charts show the gap.
+ */
+export function calculateWeeklyKPIs(
+  data: IntegratedData,
+  weekStartsOn: number,
+  registry: KPIDefinition[],
+  revenuePrecedence: ReportType[]
+): WeeklyKPISnapshot[] {
+  const buckets = bucketByWeek(data, weekStartsOn);
+  // One ledger for the whole range, so a job whose reports fall in different weeks is counted once
+  const ledger = buildJobLedger(data.opportunities, data.lineItems, data.jobTimes, data.appointments, revenuePrecedence);
+  const weekStarts = Array.from(buckets.keys());
+  if (weekStarts.length === 0) return [];
+
+  const firstWeek = new Date(Math.min(...weekStarts));
+  const lastWeek = new Date(Math.max(...weekStarts));
+
+  return getWeeksBetween(firstWeek, lastWeek, weekStartsOn).map(week => {
+    const bucket = buckets.get(week.start.getTime());
+    return {
+      ...week,
+      technicians: bucket
+        ? calculateAllTechnicianKPIs(
+            bucket.opportunities,
+            bucket.lineItems,
+            bucket.jobTimes,
+            bucket.appointments,
+            ledger,
+            week,
+            registry
+          )
+        : []
+    };
+  });
+}
+
+/**
+ * Median of a list of values, or null when empty
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Week-by-week values of one KPI for a technician alongside the team median
+ */
+export function getTechnicianTrend(
+  snapshots: WeeklyKPISnapshot[],
+  technician: string,
+  kpi: KPIDefinition
+): TrendPoint[] {
+  return snapshots.map(snapshot => {
+    const withData = snapshot.technicians.filter(kpis => hasKPIData(kpi, kpis.samples[kpi.id]));
+    const own = withData.find(kpis => kpis.technician === technician);
+    return {
+      weekStart: snapshot.start,
+      value: own ? own.kpis[kpi.id] ?? null : null,
+      teamMedian: median(withData.map(kpis => kpis.kpis[kpi.id] ?? 0))
+    };
+  });
+}
@@ -1,6 +1,9 @@
+import type { DateFormat } from '../utils/dateHelpers';
+
 // Excel file data types
+// Keys are canonical column names; actual headers are resolved through the active ColumnMappingProfile
 export interface OpportunityData {
-  Date: string;
+  Date: string | number | Date;
   Job: string;
   Customer: string;
   Email: string;
@@ -13,7 +16,7 @@ export interface OpportunityData {
 }
 
 export interface LineItemData {
-  'Invoice Date': string;
+  'Invoice Date': string | number | Date;
   Customer: string;
   Job: string;
   'Opp. Owner': string;
@@ -24,7 +27,7 @@ export interface LineItemData {
 }
 
 export interface JobTimeData {
-  'First Appointment': string;
+  'First Appointment': string | number | Date;
   Job: string;
   'Job Status': 'Pending' | 'Completed';
   Customer: string;
@@ -38,7 +41,7 @@ export interface JobTimeData {
 
 export interface AppointmentData {
   Appointment: string;
-  'Scheduled For': string;
+  'Scheduled For': string | number | Date;
   Job: string;
   Customer: string;
   'Appt Status': 'Cancelled' | 'Completed' | 'Pending';
@@ -48,8 +51,15 @@ export interface AppointmentData {
 }
 
 // Processed data types
+export interface RecordSource {
+  file: string;
+  sheet: string;
+  row: number; // 1-based spreadsheet row number
+  errors?: string[]; // values that could not be parsed
+}
+
 export interface ProcessedOpportunity {
-  date: Date;
+  date: Date | null; // null when the cell was blank or unparseable
   jobId: string;
   customer: string;
   email: string;
@@ -59,10 +69,11 @@ export interface ProcessedOpportunity {
   membershipOpportunity: boolean;
   membershipSold: boolean;
   revenue: number;
+  source: RecordSource;
 }
 
 export interface ProcessedLineItem {
-  invoiceDate: Date;
+  invoiceDate: Date | null;
   customer: string;
   jobId: string;
   technician: string;
@@ -70,10 +81,11 @@ export interface ProcessedLineItem {
   lineItem: string;
   quantity: number;
   price: number;
+  source: RecordSource;
 }
 
 export interface ProcessedJobTime {
-  firstAppointment: Date;
+  firstAppointment: Date | null;
   jobId: string;
   jobStatus: 'Pending' | 'Completed';
   customer: string;
@@ -83,30 +95,278 @@ export interface ProcessedJobTime {
   totalTime: number; // in minutes
   soldTime: number; // in minutes
   jobEfficiency: number; // percentage
+  source: RecordSource;
 }
 
 export interface ProcessedAppointment {
   appointmentId: string;
-  scheduledFor: Date;
+  scheduledFor: Date | null;
   jobId: string;
   customer: string;
   apptStatus: 'Cancelled' | 'Completed' | 'Pending';
   technician: string;
   serviceCategory: string;
   revenue: number;
+  source: RecordSource;
+}
+
+// One job reconciled across all four reports
+export interface Job {
+  jobId: string;
+  date: Date | null; // earliest date on the revenue source's rows, else on any row
+  technicians: string[]; // everyone with a row for the job
+  opportunities: ProcessedOpportunity[];
+  lineItems: ProcessedLineItem[];
+  jobTimes: ProcessedJobTime[];
+  appointments: ProcessedAppointment[];
+  completed: boolean; // won opportunity, completed appointment or completed job time
+  revenue: number; // counted once, from the first report in the precedence with rows for the job
+  revenueSource: ReportType | null;
+  revenueByTechnician: Record<string, number>; // revenue split by the revenue source's rows
+}
+
+export type ProcessedRecord = ProcessedOpportunity | ProcessedLineItem | ProcessedJobTime | ProcessedAppointment;
+
+// Data quality types
+export interface RejectedRow {
+  report: ReportType;
+  source: RecordSource;
+  technician: string;
+  jobId: string;
+  rule: string;
+  detail?: string;
+  record: ProcessedOpportunity | ProcessedLineItem | ProcessedJobTime | ProcessedAppointment;
+}
+
+// History merge types
+export interface FieldChange {
+  field: string;
+  previous: unknown;
+  current: unknown;
+}
+
+// A record restated by a later upload; the later upload's version was kept
+export interface MergeConflict {
+  report: ReportType;
+  key: string; // natural key, e.g. "job|technician"
+  technician: string;
+  jobId: string;
+  previousSource: RecordSource;
+  currentSource: RecordSource;
+  changes: FieldChange[];
+  resolvedAt: Date;
 }
 
 // KPI calculation types
 export interface TechnicianKPIs {
   technician: string;
-  averageTicketValue: number;
-  jobCloseRate: number;
-  weeklyRevenue: number;
-  jobEfficiency: number;
-  membershipWinRate: number;
-  hydroJettingJobsSold: number;
-  descalingJobsSold: number;
-  waterHeaterJobsSold: number;
+  kpis: Record<string, number>; // KPI id -> value, one entry per registered KPI
+  samples: Record<string, KPISample>; // KPI id -> what the value was calculated from
+  comparisons?: Record<string, KPIComparison>; // KPI id -> values in earlier periods
+}
+
+/**
+ * KPIs of a group of technicians, calculated from their pooled records
+ */
+export interface GroupKPIs {
+  group: string;
+  members: string[];
+  kpis: Record<string, number>; // KPI id -> value, one entry per registered KPI
+  samples: Record<string, KPISample>; // KPI id -> what the value was calculated from
+}
+
+// A user-defined team of technicians; each technician belongs to at most one team
+export interface Team {
+  id: string;
+  name: string;
+  members: string[];
+}
+
+/**
+ * What a KPI value was calculated from, so a real zero can be told from no data
+ */
+export interface KPISample {
+  numerator: number;
+  denominator: number; // 1 for totals and counts
+  sampleSize: number; // records behind the value, e.g. opportunities for a close rate
+}
+
+export interface KPIResult extends KPISample {
+  value: number; // 0 when a rate has no denominator
+}
+
+// How a record behind a KPI counted: toward the value (and a rate's denominator),
+// only toward a rate's denominator, or not at all
+export type KPIRecordRole = 'numerator' | 'denominator' | 'excluded';
+
+/**
+ * A record behind a KPI value, listed when drilling into the number
+ */
+export interface KPIRecordRow {
+  report: ReportType;
+  record: ProcessedRecord;
+  date: Date | null;
+  jobId: string;
+  detail: string; // what the record is, e.g. the opportunity status or line item name
+  amount: number; // what the record adds, in amountUnit
+  amountUnit: KPIUnit | 'hours';
+  role: KPIRecordRole;
+  reason?: string; // why a record counts only toward the denominator or is left out
+}
+
+// Rate KPIs divide one quantity by another and have no value without a denominator.
+// Proportions (successes ÷ trials) also get a Wilson confidence interval.
+export type KPIRateKind = 'proportion' | 'ratio';
+
+/**
+ * A KPI's values in earlier periods of the same kind; null where the technician had no records
+ */
+export interface KPIComparison {
+  previous: number | null; // the previous equivalent period
+  lastYear: number | null; // the same period a year earlier
+  history: (number | null)[]; // the most recent periods, oldest first, ending with the selected one
+}
+
+export type KPIUnit = 'currency' | 'percentage' | 'count';
+
+export interface KPIThresholds {
+  good: number; // at or above is good
+  warning: number; // at or above is average, below needs improvement
+}
+
+// One technician's records for the period being measured
+export interface TechnicianRecords {
+  technician: string;
+  jobs: Job[]; // ledger jobs the technician has a row for
+  opportunities: ProcessedOpportunity[];
+  lineItems: ProcessedLineItem[];
+  jobTimes: ProcessedJobTime[];
+  appointments: ProcessedAppointment[];
+}
+
+export interface KPIDefinition {
+  id: string;
+  label: string; // "{period}" is replaced by the period adjective, e.g. "Monthly"
+  unit: KPIUnit;
+  description: string;
+  sources: ReportType[]; // datasets the compute function reads
+  compute: (records: TechnicianRecords) => KPIResult;
+  drilldown: (records: TechnicianRecords) => KPIRecordRow[]; // the records behind the value
+  rate?: KPIRateKind; // unset for totals and counts
+  thresholds: KPIThresholds;
+  scoreTarget: number; // value that earns full marks in the performance score
+  summary?: boolean; // always visible on the technician card
+  cumulative?: boolean; // grows through the period, so a partial period is projected from its run rate
+  booked?: (pendingAppointments: ProcessedAppointment[]) => number; // amount expected from booked appointments
+}
+
+// Service category rules behind the "jobs sold" KPIs
+export type ServiceCategoryField = 'lineItem' | 'category';
+
+export type ServiceCountMode = 'lineItems' | 'quantity' | 'jobs';
+
+export interface ServiceCategoryRule {
+  id: string; // also the KPI id
+  label: string;
+  field: ServiceCategoryField; // line item column the rule matches against
+  include: string[]; // case-insensitive substrings, any of which matches
+  exclude: string[]; // case-insensitive substrings that veto a match
+  pattern: string; // optional case-insensitive regular expression, matches in addition to include
+  countMode: ServiceCountMode;
+  thresholds: KPIThresholds;
+  scoreTarget: number;
+}
+
+// Whom a target set applies to: everyone with a role, or one technician
+export type TargetScope = 'role' | 'technician';
+
+/**
+ * KPI thresholds for a role or a technician from a date onward. KPIs without an
+ * entry keep the next most specific targets: technician, then role, then the KPI defaults.
+ */
+export interface KPITargetSet {
+  id: string;
+  name: string;
+  scope: TargetScope;
+  assignee: string; // role name or technician name
+  effectiveFrom: string; // YYYY-MM-DD, in effect until a later set for the same assignee
+  thresholds: Record<string, KPIThresholds>; // KPI id -> thresholds
+}
+
+// Commission plan: tiered percentage of revenue, spiffs per service category sale and membership bonuses
+export type CommissionTierMode = 'marginal' | 'flat';
+
+export interface CommissionTier {
+  from: number; // revenue at which the tier starts
+  rate: number; // percent of revenue
+}
+
+export interface CompensationPlan {
+  tiers: CommissionTier[]; // ascending by `from`, the first starting at 0
+  tierMode: CommissionTierMode; // marginal: each tier's rate on the revenue within it; flat: the reached tier's rate on all revenue
+  spiffs: Record<string, number>; // service category rule id -> flat amount per counted sale
+  membershipBonus: number; // flat amount per membership sold
+}
+
+export type PayoutLineKind = 'commission' | 'spiff' | 'membership';
+
+/**
+ * One payable item on a payout statement, traceable to its source row
+ */
+export interface PayoutLine {
+  kind: PayoutLineKind;
+  date: Date | null;
+  jobId: string;
+  description: string;
+  basis: number; // revenue for commission lines, units for spiffs, 1 for memberships
+  amount: number;
+  source: RecordSource | null;
+}
+
+export interface PayoutStatement {
+  technician: string;
+  revenue: number;
+  commission: number;
+  spiffs: number;
+  membershipBonuses: number;
+  total: number;
+  lines: PayoutLine[];
+}
+
+// How a KPI value becomes a 0-1 share of its points in the performance score:
+// against its score target, between the lowest and highest peer, or by rank among peers
+export type ScoreNormalization = 'target' | 'minMax' | 'percentile';
+
+export interface KPIScoreSetting {
+  weight: number; // relative share of the score; 0 leaves the KPI out
+  normalization: ScoreNormalization;
+  cap: number; // highest percent of the score target credited, for target normalization
+}
+
+// KPI id -> score setting; KPIs without an entry use the default setting
+export type ScoringModel = Record<string, KPIScoreSetting>;
+
+/**
+ * Points one KPI contributed to a performance score
+ */
+export interface ScoreContribution {
+  kpiId: string;
+  value: number;
+  normalized: number; // 0-1, or above 1 when the cap allows exceeding the target
+  weight: number;
+  points: number;
+}
+
+export interface PerformanceScore {
+  score: number; // 0-100
+  contributions: ScoreContribution[];
+}
+
+// User settings that change how KPIs are calculated from the same data
+export interface KPISettings {
+  serviceCategories: ServiceCategoryRule[];
+  revenuePrecedence: ReportType[]; // reports in the order they are trusted for a job's revenue
+  includeZeroEfficiencyJobs: boolean; // count jobs with no sold time in job efficiency
 }
 
 export interface KPIMetric {
@@ -125,6 +385,32 @@ export interface UploadedFiles {
   appointments: File | null;
 }
 
+export type ReportType = keyof UploadedFiles;
+
+// Sheet each report was detected on, preferred over the mapping profile's sheet name
+export type ReportSheetNames = Partial<Record<ReportType, string>>;
+
+// Column mapping types
+export interface ReportColumnMapping {
+  sheetName: string;
+  columns: Record<string, string[]>; // canonical column -> header aliases
+}
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  reports: Record<ReportType, ReportColumnMapping>;
+}
+
+export interface MissingColumnsIssue {
+  fileType: ReportType;
+  fileName: string;
+  sheetName?: string; // sheet the report was read from; unset when the profile's sheet was not found
+  availableSheets: string[];
+  missingColumns: string[];
+  availableHeaders: string[];
+}
+
 export interface FileUploadState {
   files: UploadedFiles;
   isProcessing: boolean;
@@ -132,24 +418,80 @@ export interface FileUploadState {
   progress: number;
 }
 
+// Calendar types
+export interface CalendarSettings {
+  weekStartsOn: number; // 0 = Sunday ... 6 = Saturday
+  timeZone: string; // IANA zone the reports are recorded in, e.g. "America/Chicago"
+  workingDays: number[]; // days of the week technicians work, 0 = Sunday ... 6 = Saturday
+}
+
+// Reporting period types
+export type PeriodType = 'day' | 'week' | 'month' | 'quarter' | 'ytd' | 'rolling' | 'custom';
+
+export interface ReportingPeriod {
+  type: PeriodType;
+  start: Date; // midnight of the first day
+  end: Date; // last instant of the last day
+  rollingDays: number; // window length for rolling periods, kept when switching type
+}
+
+// Processing progress types
+export type ProcessingStage = 'reading' | 'parsing' | 'cleaning' | 'computing';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  percent: number; // overall, 0-100
+  files: Record<ReportType, number>; // per-file read + parse progress, 0-100
+}
+
+// How technician results are laid out
+export type ResultsView = 'cards' | 'table';
+
 // App state types
 export interface AppState {
   uploadedFiles: UploadedFiles;
-  selectedWeek: {
-    start: Date;
-    end: Date;
-  };
+  uploadedSheetNames: ReportSheetNames;
+  period: ReportingPeriod;
   technicians: TechnicianKPIs[];
+  mappingProfile: ColumnMappingProfile;
+  dateFormat: DateFormat;
+  calendar: CalendarSettings;
+  serviceCategories: ServiceCategoryRule[];
+  revenuePrecedence: ReportType[];
+  compareLastYear: boolean;
+  includeZeroEfficiencyJobs: boolean;
+  resultsView: ResultsView;
+  teams: Team[];
+  scoringModel: ScoringModel;
+  roles: Record<string, string>; // technician -> role
+  targetSets: KPITargetSet[];
+  pacing: boolean;
+  compensationPlan: CompensationPlan;
   isProcessing: boolean;
+  progress: ProcessingProgress | null;
   error: string | null;
   isDataLoaded: boolean;
 }
 
 export type AppAction =
-  | { type: 'SET_FILES'; payload: UploadedFiles }
-  | { type: 'SET_WEEK'; payload: { start: Date; end: Date } }
+  | { type: 'SET_FILES'; payload: { files: UploadedFiles; sheetNames: ReportSheetNames } }
+  | { type: 'SET_PERIOD'; payload: ReportingPeriod }
   | { type: 'SET_TECHNICIANS'; payload: TechnicianKPIs[] }
+  | { type: 'SET_MAPPING_PROFILE'; payload: ColumnMappingProfile }
+  | { type: 'SET_DATE_FORMAT'; payload: DateFormat }
+  | { type: 'SET_CALENDAR'; payload: CalendarSettings }
+  | { type: 'SET_SERVICE_CATEGORIES'; payload: ServiceCategoryRule[] }
+  | { type: 'SET_REVENUE_PRECEDENCE'; payload: ReportType[] }
+  | { type: 'SET_COMPARE_LAST_YEAR'; payload: boolean }
+  | { type: 'SET_INCLUDE_ZERO_EFFICIENCY_JOBS'; payload: boolean }
+  | { type: 'SET_RESULTS_VIEW'; payload: ResultsView }
+  | { type: 'SET_TEAMS'; payload: Team[] }
+  | { type: 'SET_SCORING_MODEL'; payload: ScoringModel }
+  | { type: 'SET_PACING'; payload: boolean }
+  | { type: 'SET_COMPENSATION_PLAN'; payload: CompensationPlan }
+  | { type: 'SET_TARGETS'; payload: { roles: Record<string, string>; targetSets: KPITargetSet[] } }
   | { type: 'SET_PROCESSING'; payload: boolean }
+  | { type: 'SET_PROGRESS'; payload: ProcessingProgress | null }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_DATA_LOADED'; payload: boolean }
   | { type: 'RESET_STATE' };
@@ -0,0 +1,181 @@
+/**
+ * File extensions treated as delimited text exports
+ */
+export const DELIMITED_FILE_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+/**
+ * Delimiters considered when sniffing a delimited text export
+ */
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+/**
+ * Check whether a file name looks like a CSV/TSV export
+ */
+export function isDelimitedFileName(fileName: string): boolean {
+  const lowerName = fileName.toLowerCase();
+  return DELIMITED_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension));
+}
+
+/**
+ * Decode raw file bytes to text, detecting the encoding from the BOM.
+ * Files without a BOM are read as UTF-8 and fall back to Windows-1252
+ * (what Excel writes for "CSV" on Windows) when they are not valid UTF-8.
+ */
+export function decodeText(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Count delimiter occurrences in a line, ignoring quoted sections
+ */
+function countDelimiter(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Detect the delimiter of a CSV/TSV export from its first lines.
+ * The winner is the candidate that appears on every sampled line the most
+ * consistently; comma is the fallback for single-column files.
+ */
+export function detectDelimiter(text: string): string {
+  const sampleLines = text
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '')
+    .slice(0, 20);
+
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = sampleLines.map(line => countDelimiter(line, delimiter));
+    const headerCount = counts[0] ?? 0;
+    if (headerCount === 0) return;
+
+    // Lines that agree with the header's column count
+    const consistentLines = counts.filter(count => count === headerCount).length;
+    const score = consistentLines * headerCount;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  });
+
+  return bestDelimiter;
+}
+
+/**
+ * Parse delimited text into rows of cells.
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes.
+ * Blank lines are returned as rows with a single empty cell.
+ */
+export function parseDelimitedText(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the final row when the file does not end with a newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop trailing blank lines; inner ones are kept so row numbers match the file
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell.trim() === '')) {
+    rows.pop();
+  }
+
+  return rows;
+}
+
+/**
+ * Quote a value for CSV output when it contains a delimiter, quote or line break
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date && isNaN(value.getTime())) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows of cells to CSV text
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Offer CSV text to the user as a file download
+ */
+export function downloadCsv(fileName: string, rows: unknown[][]): void {
+  // BOM so Excel opens the file as UTF-8
+  const blob = new Blob(['\ufeff' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
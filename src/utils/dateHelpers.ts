@@ -1,58 +1,326 @@
+import type { CalendarSettings, PeriodType, ReportingPeriod } from '../types';
+
+// Report dates are business wall-clock times held in local Date fields, so the
+// week helpers below work on calendar days and never shift by the browser's offset.
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * US time zones offered for the business calendar
+ */
+export const BUSINESS_TIME_ZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu'
+];
+
+/**
+ * Payroll week: Sunday through Saturday, Omaha time, working Monday to Friday
+ */
+export const DEFAULT_CALENDAR: CalendarSettings = {
+  weekStartsOn: 0,
+  timeZone: 'America/Chicago',
+  workingDays: [1, 2, 3, 4, 5]
+};
+
 /**
- * Get the start of the week (Monday) for a given date
+ * Check whether a string is an IANA time zone the browser knows
  */
-export function getStartOfWeek(date: Date): Date {
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Express an instant as wall-clock time in the given time zone
+ */
+export function toZonedWallTime(date: Date, timeZone: string): Date {
+  if (!isValidTimeZone(timeZone)) return new Date(date);
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  return new Date(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Get the first instant of a date's day
+ */
+export function startOfDay(date: Date): Date {
   const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-  return new Date(d.setDate(diff));
+  d.setHours(0, 0, 0, 0);
+  return d;
 }
 
 /**
- * Get the end of the week (Sunday) for a given date
+ * Get the last instant of a date's day
  */
-export function getEndOfWeek(date: Date): Date {
+export function endOfDay(date: Date): Date {
   const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? 0 : 7); // Adjust when day is Sunday
-  return new Date(d.setDate(diff));
+  d.setHours(23, 59, 59, 999);
+  return d;
 }
 
 /**
- * Get the current week range (Monday to Sunday)
+ * Move a date by whole calendar days (safe across daylight saving changes)
  */
-export function getCurrentWeek(): { start: Date; end: Date } {
-  const now = new Date();
-  return {
-    start: getStartOfWeek(now),
-    end: getEndOfWeek(now)
-  };
+export function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
 }
 
 /**
- * Get the previous week range
+ * Get the start of the week (midnight of the week's first day) for a given date
  */
-export function getPreviousWeek(currentStart: Date): { start: Date; end: Date } {
-  const prevStart = new Date(currentStart);
-  prevStart.setDate(prevStart.getDate() - 7);
-  return {
-    start: prevStart,
-    end: new Date(prevStart.getTime() + 6 * 24 * 60 * 60 * 1000)
-  };
+export function getStartOfWeek(date: Date, weekStartsOn: number = DEFAULT_CALENDAR.weekStartsOn): Date {
+  const d = startOfDay(date);
+  const daysSinceStart = (d.getDay() - weekStartsOn + 7) % 7;
+  return addDays(d, -daysSinceStart);
 }
 
 /**
- * Get the next week range
+ * Get the end of the week (last instant of the week's seventh day) for a given date
  */
-export function getNextWeek(currentStart: Date): { start: Date; end: Date } {
-  const nextStart = new Date(currentStart);
-  nextStart.setDate(nextStart.getDate() + 7);
+export function getEndOfWeek(date: Date, weekStartsOn: number = DEFAULT_CALENDAR.weekStartsOn): Date {
+  return endOfDay(addDays(getStartOfWeek(date, weekStartsOn), 6));
+}
+
+/**
+ * Get the inclusive week range containing a date
+ */
+export function getWeekRange(date: Date, weekStartsOn: number = DEFAULT_CALENDAR.weekStartsOn): { start: Date; end: Date } {
   return {
-    start: nextStart,
-    end: new Date(nextStart.getTime() + 6 * 24 * 60 * 60 * 1000)
+    start: getStartOfWeek(date, weekStartsOn),
+    end: getEndOfWeek(date, weekStartsOn)
   };
 }
 
+/**
+ * List every week range from the week containing `start` through the week containing `end`
+ */
+export function getWeeksBetween(
+  start: Date,
+  end: Date,
+  weekStartsOn: number = DEFAULT_CALENDAR.weekStartsOn
+): { start: Date; end: Date }[] {
+  const weeks: { start: Date; end: Date }[] = [];
+  const last = getStartOfWeek(end, weekStartsOn);
+
+  for (let weekStart = getStartOfWeek(start, weekStartsOn); weekStart <= last; weekStart = addDays(weekStart, 7)) {
+    weeks.push(getWeekRange(weekStart, weekStartsOn));
+  }
+
+  return weeks;
+}
+
+/**
+ * Reporting period kinds in selector order
+ */
+export const PERIOD_TYPES: { value: PeriodType; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'rolling', label: 'Rolling days' },
+  { value: 'custom', label: 'Custom range' }
+];
+
+export const DEFAULT_ROLLING_DAYS = 30;
+
+/**
+ * Number of calendar days from the day of `start` to the day of `end`
+ */
+export function daysBetween(start: Date, end: Date): number {
+  return Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / 86400000);
+}
+
+/**
+ * Get the period of the given kind containing (or, for YTD and rolling periods, ending on) a date.
+ * Custom periods cover just that day; use getCustomPeriod for a range.
+ */
+export function getPeriodRange(
+  type: PeriodType,
+  date: Date,
+  weekStartsOn: number = DEFAULT_CALENDAR.weekStartsOn,
+  rollingDays: number = DEFAULT_ROLLING_DAYS
+): ReportingPeriod {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const range = (start: Date, end: Date): ReportingPeriod => ({ type, start: startOfDay(start), end: endOfDay(end), rollingDays });
+
+  switch (type) {
+    case 'week':
+      return range(getStartOfWeek(date, weekStartsOn), addDays(getStartOfWeek(date, weekStartsOn), 6));
+    case 'month':
+      return range(new Date(year, month, 1), new Date(year, month + 1, 0));
+    case 'quarter': {
+      const firstMonth = Math.floor(month / 3) * 3;
+      return range(new Date(year, firstMonth, 1), new Date(year, firstMonth + 3, 0));
+    }
+    case 'ytd':
+      return range(new Date(year, 0, 1), date);
+    case 'rolling':
+      return range(addDays(date, -(rollingDays - 1)), date);
+    default:
+      return range(date, date);
+  }
+}
+
+/**
+ * Custom period covering whole days from one date to another, in either order
+ */
+export function getCustomPeriod(from: Date, to: Date, rollingDays: number = DEFAULT_ROLLING_DAYS): ReportingPeriod {
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  return { type: 'custom', start: startOfDay(start), end: endOfDay(end), rollingDays };
+}
+
+/**
+ * Get the current period of a kind in the business time zone
+ */
+export function getCurrentPeriod(
+  type: PeriodType,
+  calendar: CalendarSettings = DEFAULT_CALENDAR,
+  rollingDays: number = DEFAULT_ROLLING_DAYS
+): ReportingPeriod {
+  const today = toZonedWallTime(new Date(), calendar.timeZone);
+  return getPeriodRange(type === 'custom' ? 'week' : type, today, calendar.weekStartsOn, rollingDays);
+}
+
+/**
+ * Step a period back (-1) or forward (1) by its own length; steps of a
+ * year-to-date period move to the same day of the neighbouring year
+ */
+export function shiftPeriod(
+  period: ReportingPeriod,
+  steps: number,
+  weekStartsOn: number = DEFAULT_CALENDAR.weekStartsOn
+): ReportingPeriod {
+  const { type, start, end, rollingDays } = period;
+
+  switch (type) {
+    case 'day':
+      return getPeriodRange(type, addDays(start, steps), weekStartsOn, rollingDays);
+    case 'week':
+      return getPeriodRange(type, addDays(start, 7 * steps), weekStartsOn, rollingDays);
+    case 'month':
+      return getPeriodRange(type, new Date(start.getFullYear(), start.getMonth() + steps, 1), weekStartsOn, rollingDays);
+    case 'quarter':
+      return getPeriodRange(type, new Date(start.getFullYear(), start.getMonth() + 3 * steps, 1), weekStartsOn, rollingDays);
+    case 'ytd':
+      return getPeriodRange(type, shiftYears(end, steps), weekStartsOn, rollingDays);
+    case 'rolling':
+      return getPeriodRange(type, addDays(end, rollingDays * steps), weekStartsOn, rollingDays);
+    default: {
+      const length = daysBetween(start, end) + 1;
+      return getCustomPeriod(addDays(start, length * steps), addDays(end, length * steps), rollingDays);
+    }
+  }
+}
+
+/**
+ * The period of the same kind a year earlier. Weeks move to the week containing
+ * the same date last year, so they stay aligned to the week start.
+ */
+export function getSamePeriodLastYear(period: ReportingPeriod): ReportingPeriod {
+  const { type, start, end, rollingDays } = period;
+
+  if (type === 'custom') {
+    return getCustomPeriod(shiftYears(start, -1), shiftYears(end, -1), rollingDays);
+  }
+  const anchor = type === 'ytd' || type === 'rolling' ? end : start;
+  // A week period starts on the first day of the week
+  return getPeriodRange(type, shiftYears(anchor, -1), start.getDay(), rollingDays);
+}
+
+/**
+ * Same calendar day in another year; Feb 29 becomes Feb 28 in non-leap years
+ */
+export function shiftYears(date: Date, years: number): Date {
+  const year = date.getFullYear() + years;
+  const lastDayOfMonth = new Date(year, date.getMonth() + 1, 0).getDate();
+  return new Date(year, date.getMonth(), Math.min(date.getDate(), lastDayOfMonth));
+}
+
+/**
+ * Human-readable name of a period, e.g. "March 2025" or "Q1 2025"
+ */
+export function getPeriodLabel(period: ReportingPeriod): string {
+  const { type, start, end } = period;
+
+  switch (type) {
+    case 'day':
+      return start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    case 'week':
+      return getWeekLabel(start, end);
+    case 'month':
+      return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    case 'quarter':
+      return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+    case 'ytd':
+      return `${start.getFullYear()} year to date (through ${formatShortDate(end)})`;
+    case 'rolling':
+      return `${period.rollingDays} days ending ${formatShortDate(end)}, ${end.getFullYear()}`;
+    default:
+      return start.getFullYear() === end.getFullYear() ? getWeekLabel(start, end) : formatDateRange(start, end);
+  }
+}
+
+/**
+ * Adjective for KPI names that depend on the period length, e.g. "Monthly"
+ */
+export function getPeriodAdjective(type: PeriodType): string {
+  switch (type) {
+    case 'day':
+      return 'Daily';
+    case 'week':
+      return 'Weekly';
+    case 'month':
+      return 'Monthly';
+    case 'quarter':
+      return 'Quarterly';
+    case 'ytd':
+      return 'Year-to-Date';
+    default:
+      return 'Period';
+  }
+}
+
+/**
+ * Format date as YYYY-MM-DD for date inputs, using local calendar fields
+ */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Format date as MM/DD/YYYY
  */
@@ -64,6 +332,26 @@ export function formatDate(date: Date): string {
   });
 }
 
+/**
+ * Format date as month and day, e.g. "Mar 9"
+ */
+export function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Format date and time of day, e.g. "Mar 15, 2025, 8:02 AM"
+ */
+export function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
 /**
  * Format date range for display
  */
@@ -72,56 +360,157 @@ export function formatDateRange(start: Date, end: Date): string {
 }
 
 /**
- * Parse date string in MM/DD/YYYY format
+ * Day/month/year order accepted for slash-, dash- or dot-separated dates
  */
-export function parseDate(dateString: string | null | undefined): Date {
-  if (!dateString) return new Date();
-  try {
-    const [month, day, year] = dateString.split('/').map(Number);
-    if (isNaN(month) || isNaN(day) || isNaN(year)) {
-      return new Date();
-    }
-    return new Date(year, month - 1, day);
-  } catch (error) {
-    return new Date();
+export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY/MM/DD';
+
+export const DATE_FORMATS: DateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY/MM/DD'];
+
+export const DEFAULT_DATE_FORMAT: DateFormat = 'MM/DD/YYYY';
+
+// Excel serial dates count days from 1900-01-01 = 1, but Excel treats 1900 as a leap year:
+// serial 60 is the nonexistent 1900-02-29, so serials from 61 on count from 1899-12-30
+const EXCEL_LEAP_BUG_SERIAL = 60;
+const MAX_EXCEL_SERIAL = 2958465; // 12/31/9999
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Build a local date, returning null when the parts do not form a real calendar date
+ */
+function buildDate(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds, 0);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
   }
+  return date;
 }
 
 /**
- * Parse date string with time in MM/DD/YYYY HH:MM AM/PM format
+ * Convert an Excel serial date number to a local date, built from its calendar
+ * and clock parts so days when clocks change keep their wall time.
+ * The nonexistent 1900-02-29 (serial 60) is not a date.
  */
-export function parseDateTime(dateTimeString: string | null | undefined): Date {
-  if (!dateTimeString) return new Date();
-  try {
-    // Handle format like "06/01/2025 10:00 AM"
-    const [datePart, timePart] = dateTimeString.split(' ');
-    const date = parseDate(datePart);
-    
-    if (timePart) {
-      const [time, period] = timePart.split(' ');
-      const [hours, minutes] = time.split(':').map(Number);
-      let hour = hours;
-      
-      if (period === 'PM' && hours !== 12) {
-        hour += 12;
-      } else if (period === 'AM' && hours === 12) {
-        hour = 0;
-      }
-      
-      date.setHours(hour, minutes, 0, 0);
+export function excelSerialToDate(serial: number): Date | null {
+  if (!isFinite(serial) || serial <= 0 || serial > MAX_EXCEL_SERIAL) return null;
+
+  let days = Math.floor(serial);
+  if (days === EXCEL_LEAP_BUG_SERIAL) return null;
+
+  // Round to the second; a time rounding up to midnight belongs to the next day
+  let seconds = Math.round((serial - days) * SECONDS_PER_DAY);
+  if (seconds === SECONDS_PER_DAY) {
+    days++;
+    seconds = 0;
+  }
+
+  const epochDay = days < EXCEL_LEAP_BUG_SERIAL ? 31 : 30;
+  return new Date(
+    1899,
+    11,
+    epochDay + days,
+    Math.floor(seconds / 3600),
+    Math.floor((seconds % 3600) / 60),
+    seconds % 60
+  );
+}
+
+/**
+ * Parse a date cell: Excel serial numbers, JS Date cells, ISO 8601 strings, or
+ * strings in the given locale format with an optional "HH:MM[:SS] [AM/PM]" time.
+ * Timestamps carrying a UTC offset are converted to wall time in the business time zone.
+ * Returns null for blank or unparseable values instead of guessing.
+ */
+export function parseDateTime(
+  value: unknown,
+  format: DateFormat = DEFAULT_DATE_FORMAT,
+  timeZone: string = DEFAULT_CALENDAR.timeZone
+): Date | null {
+  if (value === null || value === undefined) return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getTime());
+  }
+
+  if (typeof value === 'number') {
+    return excelSerialToDate(value);
+  }
+
+  const text = String(value).trim();
+  if (text === '') return null;
+
+  // Serial numbers exported as text (common in CSV)
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return excelSerialToDate(parseFloat(text));
+  }
+
+  // ISO 8601: date-only and offset-less values are local wall time
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (isoMatch) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', offset] = isoMatch;
+    if (offset) {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? null : toZonedWallTime(date, timeZone);
     }
-    
-    return date;
-  } catch (error) {
-    return new Date();
+    return buildDate(Number(year), Number(month), Number(day), Number(hours), Number(minutes), Number(seconds));
+  }
+
+  const match = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?$/);
+  if (!match) return null;
+
+  const [, first, second, third, hoursText, minutesText = '0', secondsText = '0', period] = match;
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case 'DD/MM/YYYY':
+      [day, month, year] = [Number(first), Number(second), Number(third)];
+      break;
+    case 'YYYY/MM/DD':
+      [year, month, day] = [Number(first), Number(second), Number(third)];
+      break;
+    default:
+      [month, day, year] = [Number(first), Number(second), Number(third)];
+  }
+
+  // Two-digit years are in this century
+  if (year < 100) year += 2000;
+
+  let hours = hoursText ? Number(hoursText) : 0;
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    const isPM = period.toUpperCase() === 'PM';
+    if (isPM && hours !== 12) hours += 12;
+    if (!isPM && hours === 12) hours = 0;
+  }
+
+  return buildDate(year, month, day, hours, Number(minutesText), Number(secondsText));
+}
+
+/**
+ * Parse a date cell and drop any time of day
+ */
+export function parseDate(
+  value: unknown,
+  format: DateFormat = DEFAULT_DATE_FORMAT,
+  timeZone: string = DEFAULT_CALENDAR.timeZone
+): Date | null {
+  const date = parseDateTime(value, format, timeZone);
+  if (date) {
+    date.setHours(0, 0, 0, 0);
   }
+  return date;
 }
 
 /**
- * Check if a date falls within a week range
+ * Check if a date falls within a range, counting both boundary days in full
  */
-export function isDateInWeekRange(date: Date, weekStart: Date, weekEnd: Date): boolean {
-  return date >= weekStart && date <= weekEnd;
+export function isDateInRange(date: Date | null, start: Date, end: Date): boolean {
+  if (!date) return false;
+  return date >= startOfDay(start) && date <= endOfDay(end);
 }
 
 /**
@@ -1,3 +1,6 @@
+import type { KPIUnit } from '../types';
+import { DELIMITED_FILE_EXTENSIONS } from './csvHelpers';
+
 /**
  * Format currency values
  */
@@ -24,6 +27,38 @@ export function formatCount(count: number): string {
   return count.toLocaleString();
 }
 
+/**
+ * Format a number of hours
+ */
+export function formatHours(hours: number): string {
+  return `${hours.toFixed(1)} h`;
+}
+
+/**
+ * Format a KPI value according to its unit
+ */
+export function formatKPIValue(value: number, unit: KPIUnit): string {
+  switch (unit) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percentage':
+      return formatPercentage(value);
+    case 'count':
+      return formatCount(value);
+    default:
+      return value.toString();
+  }
+}
+
+/**
+ * Format a change in a KPI value with its sign; percentage KPIs change by percentage points
+ */
+export function formatKPIDelta(delta: number, unit: KPIUnit): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '-' : '';
+  if (unit === 'percentage') return `${sign}${Math.abs(delta).toFixed(1)} pts`;
+  return `${sign}${formatKPIValue(Math.abs(delta), unit)}`;
+}
+
 /**
  * Parse currency string to number
  */
@@ -60,13 +95,13 @@ export function parseTimeToMinutes(timeString: string | null | undefined): numbe
 }
 
 /**
- * Get color for KPI performance
+ * Get color for KPI performance; null (no data, or too few records to judge) is neutral
  */
-export function getKPIColor(value: number, thresholds: { good: number; warning: number }): 'success' | 'warning' | 'danger' | 'neutral' {
+export function getKPIColor(value: number | null, thresholds: { good: number; warning: number }): 'success' | 'warning' | 'danger' | 'neutral' {
+  if (value === null) return 'neutral';
   if (value >= thresholds.good) return 'success';
   if (value >= thresholds.warning) return 'warning';
-  if (value > 0) return 'danger';
-  return 'neutral';
+  return 'danger';
 }
 
 /**
@@ -108,27 +143,6 @@ export function containsServiceKeywords(lineItem: string | null | undefined, key
   return keywords.some(keyword => lowerLineItem.includes(keyword.toLowerCase()));
 }
 
-/**
- * Get hydro jetting keywords
- */
-export function getHydroJettingKeywords(): string[] {
-  return ['hydro', 'jetting', 'high pressure', 'pressure wash'];
-}
-
-/**
- * Get descaling keywords
- */
-export function getDescalingKeywords(): string[] {
-  return ['descal', 'scale removal', 'cast iron pipe descaling', 'descaling'];
-}
-
-/**
- * Get water heater keywords
- */
-export function getWaterHeaterKeywords(): string[] {
-  return ['water heater', 'hot water', 'heater install', 'heater replacement'];
-}
-
 /**
  * Format file size for display
  */
@@ -153,6 +167,21 @@ export function isValidExcelFile(file: File): boolean {
   return validTypes.includes(file.type);
 }
 
+/**
+ * Validate report file type: Excel workbooks or CSV/TSV exports.
+ * Browsers report inconsistent MIME types for CSV (often empty or the
+ * Excel type on Windows), so the extension is checked as well.
+ */
+export function isValidReportFile(file: File): boolean {
+  if (isValidExcelFile(file)) return true;
+
+  const validTypes = ['text/csv', 'text/tab-separated-values', 'text/plain'];
+  const lowerName = file.name.toLowerCase();
+  const validExtensions = ['.xlsx', '.xls', ...DELIMITED_FILE_EXTENSIONS];
+
+  return validTypes.includes(file.type) || validExtensions.some(extension => lowerName.endsWith(extension));
+}
+
 /**
  * Validate file size (max 10MB)
  */
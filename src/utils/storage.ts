@@ -0,0 +1,28 @@
+/**
+ * Prefix for all keys this app writes to localStorage
+ */
+const STORAGE_PREFIX = 'kpi-scorecard:';
+
+/**
+ * Load a JSON value from localStorage, falling back when missing or unreadable
+ */
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Save a JSON value to localStorage. Storage failures (private mode, quota)
+ * are ignored so settings still work for the current session.
+ */
+export function saveToStorage<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Settings stay in memory only
+  }
+}
@@ -0,0 +1,65 @@
+import type { WorkerRequest, WorkerResponse } from './protocol';
+import type { IntegratedData } from '../services/dataIntegrator';
+import type { KPISettings, ProcessingProgress, ReportingPeriod } from '../types';
+import { processAndIntegrateFiles, buildJobLedger, PROCESSING_STAGE_RANGES } from '../services/dataIntegrator';
+import { calculateTechnicianKPIsWithComparisons } from '../services/kpiCalculator';
+import { buildKPIRegistry } from '../services/kpiRegistry';
+import { mergeIntegratedData } from '../services/historyMerger';
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+/**
+ * Calculate KPIs and their period comparisons for the requested period, reporting the computing stage
+ */
+function calculate(
+  requestId: number,
+  data: IntegratedData,
+  period: ReportingPeriod,
+  settings: KPISettings,
+  startPercent: number
+) {
+  const files: ProcessingProgress['files'] = { opportunities: 100, lineItems: 100, jobTimes: 100, appointments: 100 };
+  post({ type: 'progress', requestId, progress: { stage: 'computing', percent: startPercent, files } });
+
+  return calculateTechnicianKPIsWithComparisons(
+    data.opportunities,
+    data.lineItems,
+    data.jobTimes,
+    data.appointments,
+    buildJobLedger(data.opportunities, data.lineItems, data.jobTimes, data.appointments, settings.revenuePrecedence),
+    period,
+    buildKPIRegistry(settings.serviceCategories, settings.includeZeroEfficiencyJobs),
+    // One progress message per calculated period, so a long calculation is not mistaken for a stalled one
+    fraction => post({
+      type: 'progress',
+      requestId,
+      progress: { stage: 'computing', percent: Math.round(startPercent + fraction * (100 - startPercent)), files }
+    })
+  );
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'process') {
+      const processed = await processAndIntegrateFiles(request.files, request.options, progress => {
+        post({ type: 'progress', requestId: request.requestId, progress });
+      });
+      const data = request.history ? mergeIntegratedData(request.history, processed) : processed;
+      const technicians = calculate(request.requestId, data, request.period, request.settings, PROCESSING_STAGE_RANGES.computing[0]);
+      post({ type: 'processed', requestId: request.requestId, data, technicians });
+    } else {
+      const technicians = calculate(request.requestId, request.data, request.period, request.settings, 0);
+      post({ type: 'calculated', requestId: request.requestId, technicians });
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : 'Failed to process files'
+    });
+  }
+};
@@ -0,0 +1,32 @@
+import type { KPISettings, ProcessingProgress, ReportingPeriod, TechnicianKPIs, UploadedFiles } from '../types';
+import type { IntegratedData, ProcessingOptions } from '../services/dataIntegrator';
+
+/**
+ * Messages sent from the main thread to the processing worker
+ */
+export type WorkerRequest =
+  | {
+      type: 'process';
+      requestId: number;
+      files: UploadedFiles;
+      options: ProcessingOptions;
+      history: IntegratedData | null; // cumulative dataset the upload is appended to
+      period: ReportingPeriod;
+      settings: KPISettings;
+    }
+  | {
+      type: 'calculate';
+      requestId: number;
+      data: IntegratedData;
+      period: ReportingPeriod;
+      settings: KPISettings;
+    };
+
+/**
+ * Messages sent from the processing worker back to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'progress'; requestId: number; progress: ProcessingProgress }
+  | { type: 'processed'; requestId: number; data: IntegratedData; technicians: TechnicianKPIs[] }
+  | { type: 'calculated'; requestId: number; technicians: TechnicianKPIs[] }
+  | { type: 'error'; requestId: number; message: string };